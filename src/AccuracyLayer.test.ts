@@ -0,0 +1,169 @@
+import maplibregl from "maplibre-gl";
+import { describe, expect, it } from "vitest";
+import { AccuracyLayer, createGeodesicEllipse } from "./AccuracyLayer";
+
+// Just enough of the Map style API to observe the source and layers. setStyle()
+// drops everything, like a new style would, and styleLoaded mimics addSource()
+// throwing until the style has loaded.
+function createStyleMapStub() {
+  const sources = new Map<string, { data: unknown }>();
+  let layers: Array<{ id: string }> = [];
+  const handlers = new Set<() => void>();
+  let styleLoaded = false;
+
+  const map = {
+    getSource: (id: string) => {
+      const source = sources.get(id);
+      return (
+        source && {
+          setData: (data: unknown) => {
+            source.data = data;
+          },
+        }
+      );
+    },
+    addSource: (id: string, source: { data: unknown }) => {
+      if (!styleLoaded) {
+        throw new Error("Style is not done loading.");
+      }
+      sources.set(id, { data: source.data });
+    },
+    removeSource: (id: string) => sources.delete(id),
+    getLayer: (id: string) => layers.find((layer) => layer.id === id),
+    addLayer: (layer: { id: string }, beforeId?: string) => {
+      const index = layers.findIndex(({ id }) => id === beforeId);
+      layers.splice(index === -1 ? layers.length : index, 0, layer);
+    },
+    moveLayer: (id: string, beforeId?: string) => {
+      const layer = layers.find((l) => l.id === id)!;
+      layers = layers.filter((l) => l !== layer);
+      map.addLayer(layer, beforeId);
+    },
+    removeLayer: (id: string) => {
+      layers = layers.filter((layer) => layer.id !== id);
+    },
+    on: (_type: string, handler: () => void) => handlers.add(handler),
+    off: (_type: string, handler: () => void) => handlers.delete(handler),
+  };
+
+  const setStyle = (styleLayers: Array<{ id: string }>) => {
+    sources.clear();
+    layers = [...styleLayers];
+    styleLoaded = true;
+    for (const handler of [...handlers]) handler();
+  };
+
+  const layerIds = () => layers.map((layer) => layer.id);
+  const getData = (id: string) => sources.get(id)?.data;
+
+  return {
+    map: map as unknown as maplibregl.Map,
+    setStyle,
+    layerIds,
+    getData,
+  };
+}
+
+describe("createGeodesicEllipse", () => {
+  it("should place every vertex at the radius from the center", () => {
+    const center = new maplibregl.LngLat(139.7, 35.6);
+    const circle = createGeodesicEllipse(center, {
+      semiMajor: 500,
+      semiMinor: 500,
+      orientation: 0,
+    });
+    const ring = circle.geometry.coordinates[0];
+
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    for (const [lng, lat] of ring) {
+      expect(center.distanceTo(new maplibregl.LngLat(lng, lat))).toBeCloseTo(
+        500,
+        3,
+      );
+    }
+  });
+
+  it("should widen in longitude at high latitudes", () => {
+    const circle = createGeodesicEllipse(new maplibregl.LngLat(0, 70), {
+      semiMajor: 1000,
+      semiMinor: 1000,
+      orientation: 0,
+    });
+    const lngs = circle.geometry.coordinates[0].map(([lng]) => lng);
+    const lats = circle.geometry.coordinates[0].map(([, lat]) => lat);
+    const lngSpan = Math.max(...lngs) - Math.min(...lngs);
+    const latSpan = Math.max(...lats) - Math.min(...lats);
+
+    // 1 / cos(70°) ≈ 2.92
+    expect(lngSpan / latSpan).toBeCloseTo(2.92, 1);
+  });
+
+  it("should orient the semi-major axis clockwise from north", () => {
+    const center = new maplibregl.LngLat(139.7, 35.6);
+    const ellipse = createGeodesicEllipse(center, {
+      semiMajor: 300,
+      semiMinor: 100,
+      orientation: 90,
+    });
+    const distances = ellipse.geometry.coordinates[0].map(([lng, lat]) =>
+      center.distanceTo(new maplibregl.LngLat(lng, lat)),
+    );
+
+    expect(Math.max(...distances)).toBeCloseTo(300, 3);
+    expect(Math.min(...distances)).toBeCloseTo(100, 3);
+
+    // The first vertex lies along the semi-major axis, due east
+    const [lng, lat] = ellipse.geometry.coordinates[0][0];
+    expect(lat).toBeCloseTo(35.6, 6);
+    expect(lng).toBeGreaterThan(139.7);
+  });
+});
+
+describe("AccuracyLayer", () => {
+  it("should add the source and layers once the style has loaded", () => {
+    const { map, setStyle, layerIds, getData } = createStyleMapStub();
+    const layer = new AccuracyLayer(map, "accuracy", "labels");
+    layer.setCircle(new maplibregl.LngLat(139.7, 35.6), 50);
+    expect(layerIds()).toEqual([]);
+
+    setStyle([{ id: "background" }, { id: "labels" }]);
+    expect(layerIds()).toEqual([
+      "background",
+      "accuracy-fill",
+      "accuracy-line",
+      "labels",
+    ]);
+    expect(getData("accuracy")).toMatchObject({ type: "Feature" });
+  });
+
+  it("should survive a style change and keep its data", () => {
+    const { map, setStyle, layerIds, getData } = createStyleMapStub();
+    setStyle([]);
+    const layer = new AccuracyLayer(map, "accuracy");
+    layer.setCircle(new maplibregl.LngLat(139.7, 35.6), 50);
+
+    setStyle([{ id: "roads" }]);
+    expect(layerIds()).toEqual(["roads", "accuracy-fill", "accuracy-line"]);
+    expect(getData("accuracy")).toMatchObject({ type: "Feature" });
+
+    layer.clear();
+    expect(getData("accuracy")).toMatchObject({ features: [] });
+  });
+
+  it("should move and remove its layers", () => {
+    const { map, setStyle, layerIds, getData } = createStyleMapStub();
+    setStyle([{ id: "labels" }]);
+    const layer = new AccuracyLayer(map, "accuracy");
+
+    layer.setBeforeId("labels");
+    expect(layerIds()).toEqual(["accuracy-fill", "accuracy-line", "labels"]);
+
+    layer.remove();
+    expect(layerIds()).toEqual(["labels"]);
+    expect(getData("accuracy")).toBeUndefined();
+
+    // No longer re-added by later styles
+    setStyle([]);
+    expect(layerIds()).toEqual([]);
+  });
+});
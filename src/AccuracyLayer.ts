@@ -0,0 +1,268 @@
+import type { GeoJSONSource, LngLat, Map } from "maplibre-gl";
+import { addGeoJSONLayers } from "./styleLayers";
+import type { UncertaintyEllipse } from "./types";
+
+// Mean Earth radius in meters, as used by MapLibre's LngLat#distanceTo
+const EARTH_RADIUS = 6371008.8;
+
+// Number of vertices of the circle and ellipse polygons
+const CIRCLE_STEPS = 64;
+
+const EMPTY_DATA: GeoJSON.FeatureCollection = {
+  type: "FeatureCollection",
+  features: [],
+};
+
+/**
+ * Paint of the fill and line layers
+ * @private
+ */
+export interface AccuracyPaint {
+  fillColor: string;
+  fillOpacity: number;
+  strokeColor: string;
+  strokeOpacity: number;
+  strokeWidth: number;
+}
+
+/**
+ * @private
+ */
+export const DEFAULT_ACCURACY_PAINT: AccuracyPaint = {
+  fillColor: "#1da1f2",
+  fillOpacity: 0.2,
+  strokeColor: "#1da1f2",
+  strokeOpacity: 0.5,
+  strokeWidth: 1,
+};
+
+/**
+ * Draws the accuracy area as a geodesic polygon in a `geojson` source with fill and
+ * line layers, so it is rendered by the map itself instead of a resized DOM element.
+ *
+ * The source and layers are added again whenever a new style removes them, e.g. after
+ * `map.setStyle()`.
+ *
+ * @private
+ */
+export class AccuracyLayer {
+  private _map: Map;
+  private _id: string;
+  private _beforeId?: string;
+  private _data: GeoJSON.FeatureCollection | GeoJSON.Feature = EMPTY_DATA;
+  private _paint: AccuracyPaint;
+  private _onStyleDataHandler: () => void;
+
+  /**
+   * @param map - The map to draw on
+   * @param id - Id of the source, and prefix of the `-fill` and `-line` layer ids
+   * @param beforeId - Id of an existing layer to insert the layers before
+   * @param paint - Colors and widths of the layers
+   */
+  constructor(
+    map: Map,
+    id: string,
+    beforeId?: string,
+    paint: AccuracyPaint = DEFAULT_ACCURACY_PAINT,
+  ) {
+    this._map = map;
+    this._id = id;
+    this._beforeId = beforeId;
+    this._paint = paint;
+
+    this._onStyleDataHandler = () => this._addToStyle();
+    this._map.on("styledata", this._onStyleDataHandler);
+    this._addToStyle();
+  }
+
+  /**
+   * Draw the accuracy circle
+   * @param center - The center of the circle
+   * @param radius - The radius in meters
+   */
+  setCircle(center: LngLat, radius: number): void {
+    this._setData(
+      createGeodesicEllipse(center, {
+        semiMajor: radius,
+        semiMinor: radius,
+        orientation: 0,
+      }),
+    );
+  }
+
+  /**
+   * Draw an uncertainty ellipse
+   * @param center - The center of the ellipse
+   * @param ellipse - The axes in meters and their orientation
+   */
+  setEllipse(center: LngLat, ellipse: UncertaintyEllipse): void {
+    this._setData(createGeodesicEllipse(center, ellipse));
+  }
+
+  /**
+   * Remove the accuracy circle, keeping the source and layers
+   */
+  clear(): void {
+    this._setData(EMPTY_DATA);
+  }
+
+  /**
+   * Move the layers before another layer
+   * @param beforeId - Id of an existing layer, or `undefined` to move them to the top
+   */
+  setBeforeId(beforeId: string | undefined): void {
+    this._beforeId = beforeId;
+    for (const layerId of this._layerIds()) {
+      if (this._map.getLayer(layerId)) {
+        this._map.moveLayer(layerId, beforeId);
+      }
+    }
+  }
+
+  /**
+   * Change the colors and widths of the layers
+   * @param paint - The new paint
+   */
+  setPaint(paint: AccuracyPaint): void {
+    this._paint = paint;
+    const [fillId, lineId] = this._layerIds();
+    if (!this._map.getLayer(fillId) || !this._map.getLayer(lineId)) {
+      return;
+    }
+    for (const [name, value] of Object.entries(fillPaint(paint))) {
+      this._map.setPaintProperty(fillId, name, value);
+    }
+    for (const [name, value] of Object.entries(linePaint(paint))) {
+      this._map.setPaintProperty(lineId, name, value);
+    }
+  }
+
+  /**
+   * Remove the source and layers from the map
+   */
+  remove(): void {
+    this._map.off("styledata", this._onStyleDataHandler);
+    for (const layerId of this._layerIds()) {
+      if (this._map.getLayer(layerId)) {
+        this._map.removeLayer(layerId);
+      }
+    }
+    if (this._map.getSource(this._id)) {
+      this._map.removeSource(this._id);
+    }
+  }
+
+  /**
+   * Ids of the fill and line layers
+   * @private
+   */
+  private _layerIds(): [string, string] {
+    return [`${this._id}-fill`, `${this._id}-line`];
+  }
+
+  /**
+   * Update the source data, adding the source first if needed
+   * @private
+   */
+  private _setData(data: GeoJSON.FeatureCollection | GeoJSON.Feature): void {
+    this._data = data;
+    if (this._addToStyle()) {
+      this._map.getSource<GeoJSONSource>(this._id)?.setData(data);
+    }
+  }
+
+  /**
+   * Add the source and layers if the current style lacks them
+   * @private
+   * @returns Whether the source is part of the style
+   */
+  private _addToStyle(): boolean {
+    const [fillId, lineId] = this._layerIds();
+    return addGeoJSONLayers(this._map, {
+      id: this._id,
+      data: () => this._data,
+      layers: () => [
+        {
+          id: fillId,
+          type: "fill",
+          source: this._id,
+          paint: fillPaint(this._paint),
+        },
+        {
+          id: lineId,
+          type: "line",
+          source: this._id,
+          paint: linePaint(this._paint),
+        },
+      ],
+      beforeId: this._beforeId,
+    });
+  }
+}
+
+/**
+ * @private
+ */
+function fillPaint(paint: AccuracyPaint) {
+  return {
+    "fill-color": paint.fillColor,
+    "fill-opacity": paint.fillOpacity,
+  };
+}
+
+/**
+ * @private
+ */
+function linePaint(paint: AccuracyPaint) {
+  return {
+    "line-color": paint.strokeColor,
+    "line-opacity": paint.strokeOpacity,
+    "line-width": paint.strokeWidth,
+  };
+}
+
+/**
+ * Build the polygon of an ellipse on the sphere, measuring each vertex's distance from
+ * the center along its bearing. A circle is an ellipse with equal axes.
+ * @param center - The center of the ellipse
+ * @param ellipse - The axes in meters and their orientation
+ * @returns A polygon feature with counter-clockwise winding
+ * @private
+ */
+export function createGeodesicEllipse(
+  center: LngLat,
+  { semiMajor, semiMinor, orientation }: UncertaintyEllipse,
+): GeoJSON.Feature<GeoJSON.Polygon> {
+  const toRadians = Math.PI / 180;
+  const lat1 = center.lat * toRadians;
+  const lng1 = center.lng * toRadians;
+
+  const ring: GeoJSON.Position[] = [];
+  for (let i = 0; i <= CIRCLE_STEPS; i++) {
+    // Angles run counter-clockwise, as GeoJSON expects for exterior rings
+    const t = (-2 * Math.PI * (i % CIRCLE_STEPS)) / CIRCLE_STEPS;
+    const alongMajor = semiMajor * Math.cos(t);
+    const alongMinor = semiMinor * Math.sin(t);
+    const angularDistance = Math.hypot(alongMajor, alongMinor) / EARTH_RADIUS;
+    const bearing =
+      orientation * toRadians + Math.atan2(alongMinor, alongMajor);
+
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angularDistance) +
+        Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing),
+    );
+    const lng2 =
+      lng1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+        Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2),
+      );
+    ring.push([lng2 / toRadians, lat2 / toRadians]);
+  }
+
+  return {
+    type: "Feature",
+    properties: {},
+    geometry: { type: "Polygon", coordinates: [ring] },
+  };
+}
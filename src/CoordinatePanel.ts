@@ -0,0 +1,309 @@
+import type { LngLat } from "maplibre-gl";
+import { CoordinateParseError } from "./coordinateParser";
+import { formatLabel } from "./labels";
+import type { ManualGeolocateControl } from "./ManualGeolocateControl";
+import type {
+  CoordinatePanelOptions,
+  CoordinateParseErrorCode,
+  ManualGeolocateLabels,
+} from "./types";
+
+// Labels shown below the coordinate field when it can't be parsed
+const ERROR_LABELS: Record<
+  CoordinateParseErrorCode,
+  keyof ManualGeolocateLabels
+> = {
+  INVALID_FORMAT: "invalidCoordinates",
+  OUT_OF_RANGE: "coordinatesOutOfRange",
+};
+
+// Makes element ids unique when several controls have a panel
+let panelCount = 0;
+
+/**
+ * The panel's view of the control state
+ * @private
+ */
+export interface CoordinatePanelState {
+  position: LngLat;
+  accuracy: number;
+  showAccuracyCircle: boolean;
+}
+
+/**
+ * Expandable form in the control group for entering a position by hand. The coordinate
+ * field accepts anything `parseCoordinates()` does, and "Go" calls `trigger()` unless
+ * tracking is already on, where moving the position reports it.
+ *
+ * Colors and sizes come from `--maplibregl-manual-geolocate-panel-*` custom properties.
+ *
+ * @private
+ */
+export class CoordinatePanel {
+  private _control: ManualGeolocateControl;
+  private _container: HTMLElement;
+  private _labels: ManualGeolocateLabels;
+  private _run: (callback: () => void) => void;
+
+  private _toggleButton: HTMLButtonElement;
+  private _panel: HTMLFormElement;
+  private _coordinateInput: HTMLInputElement;
+  private _errorElement: HTMLElement;
+  private _accuracySlider: HTMLInputElement;
+  private _accuracyOutput: HTMLOutputElement;
+  private _circleCheckbox: HTMLInputElement;
+
+  // Coordinates last shown in the field, which "Go" doesn't need to parse again
+  private _shownCoordinates = "";
+
+  /**
+   * @param control - The control driven by the panel
+   * @param container - The control's `maplibregl-ctrl-group` element
+   * @param labels - Text of the panel
+   * @param run - Runs a change made in the panel, so its events report the `"panel"` source
+   * @param options - Panel options
+   */
+  constructor(
+    control: ManualGeolocateControl,
+    container: HTMLElement,
+    labels: ManualGeolocateLabels,
+    run: (callback: () => void) => void,
+    options: CoordinatePanelOptions = {},
+  ) {
+    this._control = control;
+    this._container = container;
+    this._labels = labels;
+    this._run = run;
+    const id = `maplibregl-manual-geolocate-panel-${++panelCount}`;
+
+    this._toggleButton = document.createElement("button");
+    this._toggleButton.type = "button";
+    this._toggleButton.className =
+      "maplibregl-ctrl-manual-geolocate-panel-toggle";
+    this._toggleButton.title = labels.openPanel;
+    this._toggleButton.setAttribute("aria-label", this._toggleButton.title);
+    this._toggleButton.setAttribute("aria-controls", id);
+    this._toggleButton.setAttribute("aria-expanded", "false");
+    const iconSpan = document.createElement("span");
+    iconSpan.className = "maplibregl-ctrl-icon";
+    iconSpan.setAttribute("aria-hidden", "true");
+    this._toggleButton.appendChild(iconSpan);
+
+    this._panel = document.createElement("form");
+    this._panel.id = id;
+    this._panel.className = "maplibregl-manual-geolocate-panel";
+    this._panel.setAttribute("aria-label", labels.panel);
+    this._panel.noValidate = true;
+    this._panel.hidden = true;
+
+    this._coordinateInput = createElement(this._panel, "input", {
+      id: `${id}-coordinates`,
+      type: "text",
+      autocomplete: "off",
+      spellcheck: "false",
+      placeholder: "35.6895, 139.6917",
+      "aria-describedby": `${id}-error`,
+    });
+    this._panel.insertBefore(
+      createLabel(`${id}-coordinates`, labels.coordinates),
+      this._coordinateInput,
+    );
+
+    this._errorElement = createElement(this._panel, "div", {
+      id: `${id}-error`,
+      class: "maplibregl-manual-geolocate-panel-error",
+      "aria-live": "polite",
+    });
+
+    const accuracyLabel = createLabel(`${id}-accuracy`, `${labels.accuracy} `);
+    this._accuracyOutput = createElement(accuracyLabel, "output", {
+      for: `${id}-accuracy`,
+    });
+    this._panel.appendChild(accuracyLabel);
+    this._accuracySlider = createElement(this._panel, "input", {
+      id: `${id}-accuracy`,
+      type: "range",
+      min: String(options.minAccuracy ?? 5),
+      max: String(options.maxAccuracy ?? 2000),
+      step: String(options.accuracyStep ?? 5),
+    });
+
+    const circleLabel = createElement(this._panel, "label", {
+      class: "maplibregl-manual-geolocate-panel-checkbox",
+    });
+    this._circleCheckbox = createElement(circleLabel, "input", {
+      type: "checkbox",
+    });
+    circleLabel.append(` ${labels.showAccuracyCircle}`);
+
+    const goButton = createElement(this._panel, "button", {
+      type: "submit",
+      class: "maplibregl-manual-geolocate-panel-go",
+    });
+    goButton.textContent = labels.go;
+
+    this._toggleButton.addEventListener("click", () => {
+      if (this.isOpen()) {
+        this.close();
+      } else {
+        this.open();
+        this._coordinateInput.focus();
+      }
+    });
+    this._panel.addEventListener("keydown", (event) => {
+      if (event.key === "Escape") {
+        event.stopPropagation();
+        this.close();
+        this._toggleButton.focus();
+      }
+    });
+    this._panel.addEventListener("submit", (event) => {
+      event.preventDefault();
+      this._run(() => this._go());
+    });
+    this._coordinateInput.addEventListener("input", () => {
+      this._setError(null);
+    });
+    this._accuracySlider.addEventListener("input", () => {
+      this._run(() => {
+        this._control.setAccuracy(Number(this._accuracySlider.value));
+      });
+    });
+    this._circleCheckbox.addEventListener("change", () => {
+      this._control.setShowAccuracyCircle(this._circleCheckbox.checked);
+    });
+
+    container.classList.add("maplibregl-manual-geolocate-panel-container");
+    container.append(this._toggleButton, this._panel);
+
+    if (options.open) {
+      this.open();
+    }
+  }
+
+  /**
+   * Show the panel
+   */
+  open(): void {
+    this._panel.hidden = false;
+    this._toggleButton.setAttribute("aria-expanded", "true");
+  }
+
+  /**
+   * Hide the panel
+   */
+  close(): void {
+    this._panel.hidden = true;
+    this._toggleButton.setAttribute("aria-expanded", "false");
+  }
+
+  /**
+   * Whether the panel is shown
+   */
+  isOpen(): boolean {
+    return !this._panel.hidden;
+  }
+
+  /**
+   * Show the control state in the fields, except the field being edited
+   * @param state - The current control state
+   */
+  update({
+    position,
+    accuracy,
+    showAccuracyCircle,
+  }: CoordinatePanelState): void {
+    if (document.activeElement !== this._coordinateInput) {
+      this._shownCoordinates = `${position.lat.toFixed(6)}, ${position.lng.toFixed(6)}`;
+      this._coordinateInput.value = this._shownCoordinates;
+      this._setError(null);
+    }
+    if (document.activeElement !== this._accuracySlider) {
+      this._accuracySlider.value = String(accuracy);
+    }
+    const text = formatLabel(this._labels.accuracyValue, {
+      accuracy: Math.round(accuracy),
+    });
+    this._accuracyOutput.textContent = text;
+    this._accuracySlider.setAttribute("aria-valuetext", text);
+    this._circleCheckbox.checked = showAccuracyCircle;
+  }
+
+  /**
+   * Remove the panel and its button from the control group
+   */
+  remove(): void {
+    this._toggleButton.remove();
+    this._panel.remove();
+    this._container.classList.remove(
+      "maplibregl-manual-geolocate-panel-container",
+    );
+  }
+
+  /**
+   * Move to the entered coordinates and trigger the control, if that doesn't turn
+   * tracking off
+   * @private
+   */
+  private _go(): void {
+    const text = this._coordinateInput.value.trim();
+    if (text && text !== this._shownCoordinates) {
+      try {
+        this._control.setPositionFromString(text);
+      } catch (error) {
+        if (error instanceof CoordinateParseError) {
+          this._setError(error.code);
+          this._coordinateInput.focus();
+          return;
+        }
+        throw error;
+      }
+    }
+    // Always OFF without trackUserLocation
+    if (this._control.getWatchState() === "OFF") {
+      this._control.trigger();
+    }
+  }
+
+  /**
+   * Show or clear the coordinate field error
+   * @private
+   */
+  private _setError(code: CoordinateParseErrorCode | null): void {
+    this._errorElement.textContent = code
+      ? this._labels[ERROR_LABELS[code]]
+      : "";
+    if (code) {
+      this._coordinateInput.setAttribute("aria-invalid", "true");
+    } else {
+      this._coordinateInput.removeAttribute("aria-invalid");
+    }
+  }
+}
+
+/**
+ * Create an element with attributes and append it to a parent
+ * @private
+ */
+function createElement<K extends keyof HTMLElementTagNameMap>(
+  parent: HTMLElement,
+  tagName: K,
+  attributes: Record<string, string>,
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tagName);
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, value);
+  }
+  parent.appendChild(element);
+  return element;
+}
+
+/**
+ * @private
+ */
+function createLabel(forId: string, text: string): HTMLLabelElement {
+  const label = document.createElement("label");
+  label.htmlFor = forId;
+  label.textContent = text;
+  return label;
+}
@@ -1,4 +1,4 @@
-import { describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 
 // Mock MapLibre's heavy Map/Marker classes so createMap() below instantiates our
 // lightweight stand-ins while still reusing the real geometry helpers.
@@ -10,16 +10,55 @@ vi.mock("maplibre-gl", async (importOriginal) => {
   class FakeMarker {
     private element: HTMLElement;
     private map?: FakeMap;
+    private rotation = 0;
+    private lngLat = new actual.LngLat(0, 0);
+    private draggable: boolean;
+    private events = new Map<string, Set<EventHandler>>();
 
     constructor(options: any = {}) {
       this.element = options.element ?? document.createElement("div");
+      this.draggable = options.draggable ?? false;
     }
 
     setLngLat(lngLat: import("maplibre-gl").LngLatLike) {
-      actual.LngLat.convert(lngLat);
+      this.lngLat = actual.LngLat.convert(lngLat);
+      return this;
+    }
+
+    getLngLat() {
+      return this.lngLat;
+    }
+
+    setDraggable(draggable: boolean) {
+      this.draggable = draggable;
+      return this;
+    }
+
+    isDraggable() {
+      return this.draggable;
+    }
+
+    on(event: string, handler: EventHandler) {
+      if (!this.events.has(event)) {
+        this.events.set(event, new Set());
+      }
+      this.events.get(event)!.add(handler);
       return this;
     }
 
+    // Simulate a pointer drag to the given position
+    drag(lngLat: import("maplibre-gl").LngLatLike) {
+      const fire = (event: string) => {
+        for (const handler of this.events.get(event) ?? []) {
+          handler({ type: event, target: this });
+        }
+      };
+      fire("dragstart");
+      this.lngLat = actual.LngLat.convert(lngLat);
+      fire("drag");
+      fire("dragend");
+    }
+
     addTo(map: FakeMap) {
       this.map = map;
       map.getContainer().appendChild(this.element);
@@ -35,6 +74,15 @@ vi.mock("maplibre-gl", async (importOriginal) => {
     getElement() {
       return this.element;
     }
+
+    setRotation(rotation: number) {
+      this.rotation = rotation;
+      return this;
+    }
+
+    getRotation() {
+      return this.rotation;
+    }
   }
 
   class FakeMap {
@@ -45,7 +93,11 @@ vi.mock("maplibre-gl", async (importOriginal) => {
       bounds: import("maplibre-gl").LngLatBoundsLike;
       options?: import("maplibre-gl").FitBoundsOptions;
     }> = [];
+    private flyToRecords: any[] = [];
     private bearing = 0;
+    private projection = "mercator";
+    private sources = new Map<string, any>();
+    private layers = new Map<string, any>();
     _removed = false;
 
     constructor(options: any = {}) {
@@ -99,8 +151,82 @@ vi.mock("maplibre-gl", async (importOriginal) => {
     fitBounds(
       bounds: import("maplibre-gl").LngLatBoundsLike,
       options?: import("maplibre-gl").FitBoundsOptions,
+      eventData?: any,
     ) {
       this.fitBoundsRecords.push({ bounds, options });
+      this.fire("movestart", { ...eventData });
+      return this;
+    }
+
+    flyTo(options: any, eventData?: any) {
+      this.flyToRecords.push(options);
+      this.fire("movestart", { ...eventData });
+      return this;
+    }
+
+    isZooming() {
+      return false;
+    }
+
+    getProjection() {
+      return { type: this.projection };
+    }
+
+    setProjection(projection: { type: string }) {
+      this.projection = projection.type;
+      this.fire("projectiontransition", { newProjection: projection.type });
+      return this;
+    }
+
+    // Minimal style API used by the accuracy layers
+    getStyle() {
+      return { version: 8, sources: {}, layers: [...this.layers.values()] };
+    }
+
+    addSource(id: string, source: any) {
+      const stored = {
+        ...source,
+        setData: (data: unknown) => {
+          stored.data = data;
+        },
+      };
+      this.sources.set(id, stored);
+      return this;
+    }
+
+    getSource(id: string) {
+      return this.sources.get(id);
+    }
+
+    removeSource(id: string) {
+      this.sources.delete(id);
+      return this;
+    }
+
+    addLayer(layer: any) {
+      this.layers.set(layer.id, layer);
+      return this;
+    }
+
+    getLayer(id: string) {
+      return this.layers.get(id);
+    }
+
+    setPaintProperty(id: string, name: string, value: unknown) {
+      this.layers.get(id).paint[name] = value;
+      return this;
+    }
+
+    removeLayer(id: string) {
+      this.layers.delete(id);
+      return this;
+    }
+
+    // Simulate map events such as a user-initiated pan
+    fire(event: string, data?: any) {
+      for (const handler of [...(this.events.get(event) ?? [])]) {
+        handler(data);
+      }
       return this;
     }
 
@@ -108,6 +234,10 @@ vi.mock("maplibre-gl", async (importOriginal) => {
       return this.fitBoundsRecords;
     }
 
+    getFlyToCalls() {
+      return this.flyToRecords;
+    }
+
     on(event: string, handler: EventHandler) {
       if (!this.events.has(event)) {
         this.events.set(event, new Set());
@@ -149,6 +279,8 @@ vi.mock("maplibre-gl", async (importOriginal) => {
     Marker: FakeMarker as any,
     LngLat: actual.LngLat,
     LngLatBounds: actual.LngLatBounds,
+    Evented: actual.Evented,
+    Event: actual.Event,
   };
 
   return {
@@ -157,11 +289,14 @@ vi.mock("maplibre-gl", async (importOriginal) => {
   };
 });
 
+import maplibregl from "maplibre-gl";
+import { CoordinateParseError } from "./coordinateParser";
 import { ManualGeolocateControl } from "./ManualGeolocateControl";
+import { MemoryStorage } from "./storage";
 // createMap() pulls Map from the mock above, giving the tests deterministic
 // map behaviour without needing a real WebGL context.
 import { cleanupMap, createMap } from "./test/util";
-import type { ManualGeolocateControlOptions } from "./types";
+import type { ManualGeolocateControlOptions, PositionPreset } from "./types";
 
 describe("ManualGeolocateControl (Simple Tests)", () => {
   describe("initialization", () => {
@@ -425,3 +560,2246 @@ describe("ManualGeolocateControl (Map Integration)", () => {
     }
   });
 });
+
+describe("ManualGeolocateControl (updatePosition)", () => {
+  it("should show markers and fire geolocate with heading and speed", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: { lng: 139.7, lat: 35.6 },
+      });
+      map.addControl(control);
+
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+
+      control.updatePosition({
+        position: [139.71, 35.61],
+        accuracy: 20,
+        heading: 45,
+        speed: 1.5,
+      });
+
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+      expect(geolocateHandler.mock.calls[0][0].coords).toMatchObject({
+        longitude: 139.71,
+        latitude: 35.61,
+        accuracy: 20,
+        heading: 45,
+        speed: 1.5,
+      });
+      expect(
+        map.getContainer().querySelector(".maplibregl-user-location-dot"),
+      ).not.toBeNull();
+
+      // Non-tracking updates never move the camera
+      const fitBoundsCalls = (
+        map as unknown as { getFitBoundsCalls: () => any[] }
+      ).getFitBoundsCalls();
+      expect(fitBoundsCalls).toHaveLength(0);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Tracking Mode)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  const getButton = (map: import("maplibre-gl").Map) =>
+    map
+      .getContainer()
+      .querySelector(".maplibregl-ctrl-geolocate") as HTMLButtonElement;
+
+  it("should toggle between OFF and ACTIVE_LOCK on trigger", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trackUserLocation: true,
+      });
+      map.addControl(control);
+
+      const startHandler = vi.fn();
+      const endHandler = vi.fn();
+      const geolocateHandler = vi.fn();
+      control.on("trackuserlocationstart", startHandler);
+      control.on("trackuserlocationend", endHandler);
+      control.on("geolocate", geolocateHandler);
+
+      const button = getButton(map);
+      expect(button.getAttribute("aria-pressed")).toBe("false");
+
+      control.trigger();
+      expect(control.getWatchState()).toBe("ACTIVE_LOCK");
+      expect(
+        button.classList.contains("maplibregl-ctrl-geolocate-active"),
+      ).toBe(true);
+      expect(button.getAttribute("aria-pressed")).toBe("true");
+      expect(startHandler).toHaveBeenCalledTimes(1);
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+      expect(
+        map.getContainer().querySelector(".maplibregl-user-location-dot"),
+      ).not.toBeNull();
+
+      control.trigger();
+      expect(control.getWatchState()).toBe("OFF");
+      expect(
+        button.classList.contains("maplibregl-ctrl-geolocate-active"),
+      ).toBe(false);
+      expect(button.getAttribute("aria-pressed")).toBe("false");
+      expect(endHandler).toHaveBeenCalledTimes(1);
+      expect(
+        map.getContainer().querySelector(".maplibregl-user-location-dot"),
+      ).toBeNull();
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should follow setPosition() while locked and stop following in background", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trackUserLocation: true,
+      });
+      map.addControl(control);
+      control.trigger();
+
+      const fitBoundsCalls = (
+        map as unknown as { getFitBoundsCalls: () => any[] }
+      ).getFitBoundsCalls();
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+
+      control.setPosition({ lng: 139.8, lat: 35.7 });
+      expect(fitBoundsCalls).toHaveLength(2);
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+      expect(control.getWatchState()).toBe("ACTIVE_LOCK");
+
+      const lostFocusHandler = vi.fn();
+      const endHandler = vi.fn();
+      control.on("userlocationlostfocus", lostFocusHandler);
+      control.on("trackuserlocationend", endHandler);
+
+      // Simulate a user pan
+      (map as unknown as { fire: (type: string, data?: any) => void }).fire(
+        "movestart",
+        {},
+      );
+
+      const button = getButton(map);
+      expect(control.getWatchState()).toBe("BACKGROUND");
+      expect(
+        button.classList.contains("maplibregl-ctrl-geolocate-background"),
+      ).toBe(true);
+      expect(lostFocusHandler).toHaveBeenCalledTimes(1);
+      expect(endHandler).toHaveBeenCalledTimes(1);
+
+      control.setPosition({ lng: 139.9, lat: 35.8 });
+      expect(fitBoundsCalls).toHaveLength(2);
+      expect(geolocateHandler).toHaveBeenCalledTimes(2);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should refocus from BACKGROUND on trigger", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trackUserLocation: true,
+      });
+      map.addControl(control);
+      control.trigger();
+      (map as unknown as { fire: (type: string, data?: any) => void }).fire(
+        "movestart",
+        {},
+      );
+
+      const startHandler = vi.fn();
+      const focusHandler = vi.fn();
+      control.on("trackuserlocationstart", startHandler);
+      control.on("userlocationfocus", focusHandler);
+
+      control.trigger();
+
+      const button = getButton(map);
+      expect(control.getWatchState()).toBe("ACTIVE_LOCK");
+      expect(
+        button.classList.contains("maplibregl-ctrl-geolocate-active"),
+      ).toBe(true);
+      expect(
+        button.classList.contains("maplibregl-ctrl-geolocate-background"),
+      ).toBe(false);
+      expect(startHandler).toHaveBeenCalledTimes(1);
+      expect(focusHandler).toHaveBeenCalledTimes(1);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Heading)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  it("should draw a rotated heading cone when a heading is known", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        heading: 45,
+        showUserHeading: true,
+      });
+      map.addControl(control);
+
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+      control.trigger();
+
+      expect(geolocateHandler.mock.calls[0][0].coords.heading).toBe(45);
+
+      const container = map.getContainer();
+      const cone = container.querySelector(".maplibregl-user-location-heading");
+      const dot = container.querySelector(".maplibregl-user-location-dot");
+      expect(cone).not.toBeNull();
+      expect(
+        dot?.classList.contains("maplibregl-user-location-show-heading"),
+      ).toBe(true);
+
+      control.setHeading(null);
+      expect(
+        container.querySelector(".maplibregl-user-location-heading"),
+      ).toBeNull();
+      expect(
+        dot?.classList.contains("maplibregl-user-location-show-heading"),
+      ).toBe(false);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should keep the cone hidden until showUserHeading is enabled", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+      });
+      map.addControl(control);
+      control.setHeading(90);
+      control.trigger();
+
+      const container = map.getContainer();
+      expect(
+        container.querySelector(".maplibregl-user-location-heading"),
+      ).toBeNull();
+
+      control.setShowUserHeading(true);
+      expect(
+        container.querySelector(".maplibregl-user-location-heading"),
+      ).not.toBeNull();
+
+      // The dot stays on top of the cone
+      const markers = Array.from(container.children);
+      const coneIndex = markers.findIndex((el) =>
+        el.classList.contains("maplibregl-user-location-heading"),
+      );
+      const dotIndex = markers.findIndex((el) =>
+        el.classList.contains("maplibregl-user-location-dot"),
+      );
+      expect(dotIndex).toBeGreaterThan(coneIndex);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Coordinates)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  it("should report all coordinate fields and the timestamp from options", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        accuracy: 15,
+        altitude: 40,
+        altitudeAccuracy: 5,
+        heading: 180,
+        speed: 2.5,
+        timestamp: 1_700_000_000_000,
+      });
+      map.addControl(control);
+
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+      control.trigger();
+
+      const position: GeolocationPosition = geolocateHandler.mock.calls[0][0];
+      const expectedCoords = {
+        latitude: 35.6,
+        longitude: 139.7,
+        accuracy: 15,
+        altitude: 40,
+        altitudeAccuracy: 5,
+        heading: 180,
+        speed: 2.5,
+      };
+      expect(position.timestamp).toBe(1_700_000_000_000);
+      expect(position.coords).toMatchObject(expectedCoords);
+      expect(position.toJSON()).toEqual({
+        coords: expectedCoords,
+        timestamp: 1_700_000_000_000,
+      });
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should update fields through setCoords() and the setters", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        timestamp: 1_000,
+      });
+      map.addControl(control);
+
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+
+      control.setCoords({ latitude: 35.7, altitude: 12, speed: 0 });
+      control.setAltitudeAccuracy(3);
+      control.setHeading(270);
+      control.setTimestamp(null);
+
+      const before = Date.now();
+      control.trigger();
+
+      const position: GeolocationPosition = geolocateHandler.mock.calls[0][0];
+      expect(position.coords).toMatchObject({
+        latitude: 35.7,
+        longitude: 139.7,
+        altitude: 12,
+        altitudeAccuracy: 3,
+        heading: 270,
+        speed: 0,
+      });
+      expect(position.timestamp).toBeGreaterThanOrEqual(before);
+
+      control.setAltitude(null);
+      control.setSpeed(null);
+      control.trigger();
+      expect(geolocateHandler.mock.calls[1][0].coords).toMatchObject({
+        altitude: null,
+        speed: null,
+      });
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Dragging)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  it("should move the position and fire drag events when the dot is dragged", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        draggable: true,
+      });
+      map.addControl(control);
+      control.trigger();
+
+      const events: string[] = [];
+      const geolocateHandler = vi.fn();
+      control.on("dragstart", () => events.push("dragstart"));
+      control.on("drag", ({ lngLat }) => events.push(`drag ${lngLat.lng}`));
+      control.on("dragend", ({ input }) => events.push(`dragend ${input}`));
+      control.on("geolocate", geolocateHandler);
+
+      (control as any)._positionMarker.drag([139.8, 35.7]);
+
+      expect(events).toEqual(["dragstart", "drag 139.8", "dragend pointer"]);
+      expect(geolocateHandler).not.toHaveBeenCalled();
+      expect(control.getGeolocationPosition().coords).toMatchObject({
+        longitude: 139.8,
+        latitude: 35.7,
+      });
+      expect((control as any)._accuracyMarker.getLngLat().lng).toBe(139.8);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should fire geolocate on drop when geolocateOnDragEnd is set", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        draggable: true,
+        geolocateOnDragEnd: true,
+      });
+      map.addControl(control);
+      control.trigger();
+
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+      (control as any)._positionMarker.drag([139.8, 35.7]);
+
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+      expect(geolocateHandler.mock.calls[0][0].coords.longitude).toBe(139.8);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should nudge the dot with the arrow keys", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        draggable: true,
+        geolocateOnDragEnd: true,
+      });
+      map.addControl(control);
+      control.trigger();
+
+      const dot = map
+        .getContainer()
+        .querySelector<HTMLElement>(".maplibregl-user-location-dot")!;
+      expect(dot.tabIndex).toBe(0);
+
+      const dragstartHandler = vi.fn();
+      const dragendHandler = vi.fn();
+      const geolocateHandler = vi.fn();
+      control.on("dragstart", dragstartHandler);
+      control.on("dragend", dragendHandler);
+      control.on("geolocate", geolocateHandler);
+
+      dot.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight" }));
+      dot.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight" }));
+      dot.dispatchEvent(new KeyboardEvent("keyup", { key: "ArrowRight" }));
+
+      // The mocked map projects 1 degree to 100 pixels
+      const { longitude } = control.getGeolocationPosition().coords;
+      expect(longitude).toBeCloseTo(139.9);
+      expect(dragstartHandler).toHaveBeenCalledTimes(1);
+      expect(dragendHandler.mock.calls[0][0].input).toBe("keyboard");
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+
+      control.setDraggable(false);
+      expect(dot.hasAttribute("tabindex")).toBe(false);
+      dot.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight" }));
+      expect(control.getGeolocationPosition().coords.longitude).toBe(longitude);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Position pick)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  it("should set the position from the next map click after Shift+click", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        enablePositionPick: true,
+      });
+      map.addControl(control);
+
+      const pickHandler = vi.fn();
+      const geolocateHandler = vi.fn();
+      control.on("positionpick", pickHandler);
+      control.on("geolocate", geolocateHandler);
+
+      const button = map
+        .getContainer()
+        .querySelector<HTMLButtonElement>(".maplibregl-ctrl-geolocate")!;
+      button.dispatchEvent(new MouseEvent("click", { shiftKey: true }));
+
+      expect(control.isPickingPosition()).toBe(true);
+      expect(geolocateHandler).not.toHaveBeenCalled();
+      expect(
+        map
+          .getContainer()
+          .classList.contains("maplibregl-manual-geolocate-picking"),
+      ).toBe(true);
+
+      const lngLat = new maplibregl.LngLat(139.8, 35.7);
+      (map as any).fire("click", { lngLat });
+
+      expect(control.isPickingPosition()).toBe(false);
+      expect(pickHandler).toHaveBeenCalledTimes(1);
+      expect(pickHandler.mock.calls[0][0].lngLat.toArray()).toEqual([
+        139.8, 35.7,
+      ]);
+      expect(control.getGeolocationPosition().coords.longitude).toBe(139.8);
+      expect(
+        map.getContainer().querySelector(".maplibregl-user-location-dot"),
+      ).not.toBeNull();
+
+      // Later clicks no longer pick
+      (map as any).fire("click", { lngLat: new maplibregl.LngLat(0, 0) });
+      expect(pickHandler).toHaveBeenCalledTimes(1);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should enter pick mode on long press and cancel on Escape", () => {
+    vi.useFakeTimers();
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        enablePositionPick: true,
+      });
+      map.addControl(control);
+
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+
+      const button = map
+        .getContainer()
+        .querySelector<HTMLButtonElement>(".maplibregl-ctrl-geolocate")!;
+      button.dispatchEvent(new Event("pointerdown"));
+      vi.advanceTimersByTime(500);
+      button.dispatchEvent(new Event("pointerup"));
+      button.dispatchEvent(new MouseEvent("click"));
+
+      // The click ending the long press does not trigger
+      expect(control.isPickingPosition()).toBe(true);
+      expect(geolocateHandler).not.toHaveBeenCalled();
+
+      document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+      expect(control.isPickingPosition()).toBe(false);
+
+      (map as any).fire("click", { lngLat: new maplibregl.LngLat(0, 0) });
+      expect(control.getGeolocationPosition().coords.longitude).toBe(139.7);
+    } finally {
+      cleanupMap(map);
+      vi.useRealTimers();
+    }
+  });
+
+  it("should not swallow the next click after a long press without a click", () => {
+    vi.useFakeTimers();
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        enablePositionPick: true,
+      });
+      map.addControl(control);
+
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+
+      const button = map
+        .getContainer()
+        .querySelector<HTMLButtonElement>(".maplibregl-ctrl-geolocate")!;
+      button.dispatchEvent(new Event("pointerdown"));
+      vi.advanceTimersByTime(500);
+      // Released outside the button, so no click follows
+      button.dispatchEvent(new Event("pointerleave"));
+      vi.runAllTimers();
+
+      document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+      button.dispatchEvent(new MouseEvent("click"));
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+    } finally {
+      cleanupMap(map);
+      vi.useRealTimers();
+    }
+  });
+
+  it("should ignore Shift+click unless enablePositionPick is set", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({ position: defaultPosition });
+      map.addControl(control);
+
+      const button = map
+        .getContainer()
+        .querySelector<HTMLButtonElement>(".maplibregl-ctrl-geolocate")!;
+      button.dispatchEvent(new MouseEvent("click", { shiftKey: true }));
+
+      expect(control.isPickingPosition()).toBe(false);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Simulated errors)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  function getButton(map: ReturnType<typeof createMap>) {
+    return map
+      .getContainer()
+      .querySelector<HTMLButtonElement>(".maplibregl-ctrl-geolocate")!;
+  }
+
+  it("should fail trigger() with the simulated error after its delay", () => {
+    vi.useFakeTimers();
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        simulatedError: { code: 3, delay: 1000 },
+      });
+      map.addControl(control);
+
+      const errorHandler = vi.fn();
+      const geolocateHandler = vi.fn();
+      control.on("error", errorHandler);
+      control.on("geolocate", geolocateHandler);
+
+      control.trigger();
+      const button = getButton(map);
+      expect(
+        button.classList.contains("maplibregl-ctrl-geolocate-waiting"),
+      ).toBe(true);
+      expect(errorHandler).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1000);
+      expect(errorHandler).toHaveBeenCalledTimes(1);
+      expect(errorHandler.mock.calls[0][0]).toMatchObject({
+        code: 3,
+        TIMEOUT: 3,
+        message: "Timeout expired",
+      });
+      expect(
+        button.classList.contains("maplibregl-ctrl-geolocate-waiting"),
+      ).toBe(false);
+      expect(geolocateHandler).not.toHaveBeenCalled();
+
+      control.setSimulatedError(null);
+      control.trigger();
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+    } finally {
+      cleanupMap(map);
+      vi.useRealTimers();
+    }
+  });
+
+  it("should succeed again after a simulated PERMISSION_DENIED is cleared", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        simulatedError: { code: 1 },
+      });
+      map.addControl(control);
+
+      const errorHandler = vi.fn();
+      const geolocateHandler = vi.fn();
+      control.on("error", errorHandler);
+      control.on("geolocate", geolocateHandler);
+
+      control.trigger();
+      expect(errorHandler.mock.calls[0][0].code).toBe(1);
+      expect(getButton(map).disabled).toBe(false);
+      expect(control.getPermissionState()).toBe("granted");
+
+      control.setSimulatedError(null);
+      control.trigger();
+      expect(errorHandler).toHaveBeenCalledTimes(1);
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should disable the button while permission is denied", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        permissionState: "denied",
+      });
+      map.addControl(control);
+
+      const errorHandler = vi.fn();
+      control.on("error", errorHandler);
+
+      const button = getButton(map);
+      expect(button.disabled).toBe(true);
+      expect(button.title).toBe("Location not available");
+
+      control.trigger();
+      expect(errorHandler.mock.calls[0][0].code).toBe(1);
+
+      control.setPermissionState("granted");
+      expect(button.disabled).toBe(false);
+      expect(button.title).toBe("Find my location");
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should enter and leave the native error states in tracking mode", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trackUserLocation: true,
+      });
+      map.addControl(control);
+      const button = getButton(map);
+
+      const errorHandler = vi.fn();
+      const geolocateHandler = vi.fn();
+      control.on("error", errorHandler);
+      control.on("geolocate", geolocateHandler);
+
+      control.trigger();
+      expect(control.getWatchState()).toBe("ACTIVE_LOCK");
+
+      control.setSimulatedError({ code: 2 });
+      expect(control.getWatchState()).toBe("ACTIVE_ERROR");
+      expect(errorHandler.mock.calls[0][0].code).toBe(2);
+      expect(
+        button.classList.contains("maplibregl-ctrl-geolocate-active-error"),
+      ).toBe(true);
+      expect(
+        button.classList.contains("maplibregl-ctrl-geolocate-active"),
+      ).toBe(false);
+
+      // Updates are held back while the error is simulated
+      control.setPosition([139.8, 35.7]);
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+
+      control.setSimulatedError(null);
+      expect(control.getWatchState()).toBe("ACTIVE_LOCK");
+      expect(geolocateHandler).toHaveBeenCalledTimes(2);
+
+      control.setPermissionState("denied");
+      expect(control.getWatchState()).toBe("OFF");
+      expect(errorHandler.mock.calls[1][0].code).toBe(1);
+      expect(button.disabled).toBe(true);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should lock on the position when a pending error is cleared while waiting", () => {
+    vi.useFakeTimers();
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trackUserLocation: true,
+        simulatedError: { code: 3, delay: 1000 },
+      });
+      map.addControl(control);
+
+      const errorHandler = vi.fn();
+      const geolocateHandler = vi.fn();
+      control.on("error", errorHandler);
+      control.on("geolocate", geolocateHandler);
+
+      control.trigger();
+      expect(control.getWatchState()).toBe("WAITING_ACTIVE");
+
+      control.setSimulatedError(null);
+      expect(control.getWatchState()).toBe("ACTIVE_LOCK");
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+      expect(
+        map.getContainer().querySelector(".maplibregl-user-location-dot"),
+      ).not.toBeNull();
+
+      vi.advanceTimersByTime(1000);
+      expect(errorHandler).not.toHaveBeenCalled();
+
+      control.setPosition([139.8, 35.7]);
+      expect(geolocateHandler).toHaveBeenCalledTimes(2);
+    } finally {
+      cleanupMap(map);
+      vi.useRealTimers();
+    }
+  });
+
+  it("should report a replaced error while waiting for a pending one", () => {
+    vi.useFakeTimers();
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trackUserLocation: true,
+        simulatedError: { code: 3, delay: 1000 },
+      });
+      map.addControl(control);
+
+      const errorHandler = vi.fn();
+      control.on("error", errorHandler);
+
+      control.trigger();
+      control.setSimulatedError({ code: 2, delay: 500 });
+      vi.advanceTimersByTime(500);
+      expect(errorHandler).toHaveBeenCalledTimes(1);
+      expect(errorHandler.mock.calls[0][0].code).toBe(2);
+      expect(control.getWatchState()).toBe("ACTIVE_ERROR");
+
+      vi.advanceTimersByTime(1000);
+      expect(errorHandler).toHaveBeenCalledTimes(1);
+
+      // Denying permission fails right away and turns tracking off
+      control.trigger();
+      control.trigger();
+      expect(control.getWatchState()).toBe("WAITING_ACTIVE");
+      control.setPermissionState("denied");
+      expect(errorHandler.mock.calls[1][0].code).toBe(1);
+      expect(control.getWatchState()).toBe("OFF");
+    } finally {
+      cleanupMap(map);
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Projection)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  it("should draw the accuracy circle with layers while on the globe", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({ position: defaultPosition });
+      map.addControl(control);
+      control.trigger();
+
+      const container = map.getContainer();
+      const circleSelector = ".maplibregl-user-location-accuracy-circle";
+      expect(container.querySelector(circleSelector)).not.toBeNull();
+      expect(map.getLayer("manual-geolocate-accuracy-fill")).toBeUndefined();
+
+      map.setProjection({ type: "globe" });
+      expect(container.querySelector(circleSelector)).toBeNull();
+      expect(map.getLayer("manual-geolocate-accuracy-fill")).toBeDefined();
+
+      map.setProjection({ type: "mercator" });
+      expect(map.getLayer("manual-geolocate-accuracy-fill")).toBeUndefined();
+
+      // The circle is shown again beneath the dot
+      const circle = container.querySelector(circleSelector);
+      const dot = container.querySelector(".maplibregl-user-location-dot");
+      expect(circle).not.toBeNull();
+      expect(
+        circle!.compareDocumentPosition(dot!) &
+          Node.DOCUMENT_POSITION_FOLLOWING,
+      ).toBeTruthy();
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Position source)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  it("should notify position change listeners until unsubscribed", () => {
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      accuracy: 30,
+    });
+    const listener = vi.fn();
+    const unsubscribe = control.onPositionChange(listener);
+
+    control.setPosition([139.71, 35.61]);
+    control.setAccuracy(10);
+    control.setCoords({ speed: 1 });
+    control.updatePosition({ position: [139.72, 35.62] });
+    expect(listener).toHaveBeenCalledTimes(4);
+
+    const position = control.getGeolocationPosition();
+    expect(position.coords).toMatchObject({
+      longitude: 139.72,
+      latitude: 35.62,
+      accuracy: 10,
+    });
+
+    unsubscribe();
+    control.setPosition(defaultPosition);
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("ManualGeolocateControl (Uncertainty ellipse)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+  const ellipse = { semiMajor: 80, semiMinor: 20, orientation: 45 };
+
+  it("should report the ellipse and its equivalent radius", () => {
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      uncertaintyEllipse: ellipse,
+    });
+    const geolocateHandler = vi.fn();
+    control.on("geolocate", geolocateHandler);
+
+    control.trigger();
+
+    const position = geolocateHandler.mock.calls[0][0];
+    expect(position.uncertaintyEllipse).toEqual(ellipse);
+    expect(position.coords.accuracy).toBeCloseTo(40);
+    expect(position.toJSON().uncertaintyEllipse).toEqual(ellipse);
+
+    control.setAccuracy(15);
+    expect(control.getUncertaintyEllipse()).toBeNull();
+    expect(control.getGeolocationPosition().uncertaintyEllipse).toBeUndefined();
+
+    control.updatePosition({
+      position: defaultPosition,
+      uncertaintyEllipse: ellipse,
+    });
+    expect(control.getGeolocationPosition().coords.accuracy).toBeCloseTo(40);
+  });
+
+  it("should stretch the accuracy marker and fit the ellipse", () => {
+    const map = createMap();
+
+    try {
+      // The fake map projects about 1 km per pixel, so use a large ellipse
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        uncertaintyEllipse: {
+          semiMajor: 80000,
+          semiMinor: 20000,
+          orientation: 45,
+        },
+      });
+      map.addControl(control);
+      control.trigger();
+
+      const element = map
+        .getContainer()
+        .querySelector(
+          ".maplibregl-user-location-accuracy-circle",
+        ) as HTMLDivElement;
+      const width = parseFloat(element.style.width);
+      const height = parseFloat(element.style.height);
+      expect(width / height).toBeCloseTo(4, 1);
+
+      // The fake map fits the bounds of the rotated ellipse
+      const [{ bounds }] = (
+        map as unknown as { getFitBoundsCalls: () => Array<{ bounds: any }> }
+      ).getFitBoundsCalls();
+      const { lng } = defaultPosition;
+      const northExtent = new maplibregl.LngLat(
+        lng,
+        (bounds as maplibregl.LngLatBounds).getSouth(),
+      ).distanceTo(
+        new maplibregl.LngLat(
+          lng,
+          (bounds as maplibregl.LngLatBounds).getNorth(),
+        ),
+      );
+      expect(
+        northExtent / 2 / (Math.hypot(80000, 20000) / Math.SQRT2),
+      ).toBeCloseTo(1, 2);
+
+      control.setUncertaintyEllipse(null);
+      expect(parseFloat(element.style.width)).toBeCloseTo(
+        parseFloat(element.style.height),
+      );
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Trail)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  it("should keep the last positions and skip unmoved updates", () => {
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      trail: { maxPoints: 3 },
+    });
+
+    control.setPosition([139.71, 35.61]);
+    control.setAccuracy(10);
+    control.setPosition([139.72, 35.62]);
+    control.setPosition([139.73, 35.63]);
+
+    const history = control.getHistory();
+    expect(history.map(({ lngLat }) => lngLat.toArray())).toEqual([
+      [139.71, 35.61],
+      [139.72, 35.62],
+      [139.73, 35.63],
+    ]);
+    expect(history[1].accuracy).toBe(10);
+
+    control.clearHistory();
+    expect(control.getHistory()).toEqual([]);
+  });
+
+  it("should drop positions older than maxAge", () => {
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      timestamp: 0,
+      trail: { maxAge: 10_000 },
+    });
+
+    control.updatePosition({ position: [139.71, 35.61], timestamp: 5_000 });
+    control.updatePosition({ position: [139.72, 35.62], timestamp: 12_000 });
+
+    expect(control.getHistory().map(({ timestamp }) => timestamp)).toEqual([
+      5_000, 12_000,
+    ]);
+  });
+
+  it("should keep dropping old positions while no new ones arrive", () => {
+    vi.useFakeTimers();
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trail: { maxAge: 10_000 },
+      });
+      map.addControl(control);
+      control.trigger();
+      vi.advanceTimersByTime(4_000);
+      control.setPosition([139.71, 35.61]);
+      vi.advanceTimersByTime(4_000);
+      control.setPosition([139.72, 35.62]);
+      expect(control.getHistory()).toHaveLength(3);
+
+      const source = map.getSource("manual-geolocate-trail") as any;
+      vi.advanceTimersByTime(2_001);
+      expect(control.getHistory()).toHaveLength(2);
+      expect(source.data.features).toHaveLength(1);
+
+      vi.advanceTimersByTime(4_000);
+      expect(
+        control.getHistory().map(({ lngLat }) => lngLat.toArray()),
+      ).toEqual([[139.72, 35.62]]);
+      expect(source.data.features).toHaveLength(0);
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      cleanupMap(map);
+      vi.useRealTimers();
+    }
+  });
+
+  it("should not keep a history without the trail option", () => {
+    const control = new ManualGeolocateControl({ position: defaultPosition });
+    control.setPosition([139.71, 35.61]);
+
+    expect(control.getHistory()).toEqual([]);
+  });
+
+  it("should draw a fading line while the markers are shown", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trail: true,
+      });
+      map.addControl(control);
+      control.setPosition([139.71, 35.61]);
+      control.setPosition([139.72, 35.62]);
+
+      const source = map.getSource("manual-geolocate-trail") as any;
+      expect(map.getLayer("manual-geolocate-trail-line")).toBeDefined();
+      expect(source.data.features).toHaveLength(0);
+
+      control.trigger();
+      const opacities = source.data.features.map(
+        (feature: GeoJSON.Feature) => feature.properties!.opacity,
+      );
+      expect(opacities).toEqual([0.4, 0.8]);
+
+      map.removeControl(control);
+      expect(map.getSource("manual-geolocate-trail")).toBeUndefined();
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (URL sync)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("should read the initial position from the hash", () => {
+    window.history.replaceState(
+      null,
+      "",
+      "/#map=12/35/139&loc=139.69,35.68,50,90",
+    );
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      urlSync: true,
+    });
+
+    expect(control.getGeolocationPosition().coords).toMatchObject({
+      longitude: 139.69,
+      latitude: 35.68,
+      accuracy: 50,
+      heading: 90,
+    });
+  });
+
+  it("should ignore an invalid parameter", () => {
+    window.history.replaceState(null, "", "/?loc=abc,100");
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      urlSync: { mode: "query" },
+    });
+
+    expect(control.getGeolocationPosition().coords).toMatchObject({
+      longitude: 139.7,
+      latitude: 35.6,
+    });
+  });
+
+  it("should ignore a malformed percent-encoded parameter", () => {
+    window.history.replaceState(null, "", "/#loc=%E0%A4%A");
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      urlSync: true,
+    });
+
+    expect(control.getGeolocationPosition().coords).toMatchObject({
+      longitude: 139.7,
+      latitude: 35.6,
+    });
+  });
+
+  it("should keep the URL updated without touching other parameters", () => {
+    vi.useFakeTimers();
+    window.history.replaceState(null, "", "/?lang=ja#map=12/35/139");
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      urlSync: true,
+    });
+
+    control.setPosition([139.71, 35.61]);
+    expect(window.location.hash).toBe("#map=12/35/139&loc=139.71,35.61,50");
+
+    // Throttled, the latest value wins
+    control.setAccuracy(20);
+    control.setHeading(180);
+    expect(window.location.hash).toBe("#map=12/35/139&loc=139.71,35.61,50");
+    vi.advanceTimersByTime(300);
+    expect(window.location.hash).toBe("#map=12/35/139&loc=139.71,35.61,20,180");
+    expect(window.location.search).toBe("?lang=ja");
+  });
+
+  it("should write to the query string with a custom parameter", () => {
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      urlSync: { mode: "query", parameter: "pos" },
+    });
+
+    control.setPosition([139.123456789, 35.5]);
+    expect(window.location.search).toBe("?pos=139.123457,35.5,50");
+    expect(window.location.hash).toBe("");
+  });
+
+  it("should follow hash edits while on the map", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        urlSync: true,
+      });
+      map.addControl(control);
+
+      window.history.replaceState(null, "", "/#loc=139.8,35.7,15");
+      window.dispatchEvent(new HashChangeEvent("hashchange"));
+
+      expect(control.getGeolocationPosition().coords).toMatchObject({
+        longitude: 139.8,
+        latitude: 35.7,
+        accuracy: 15,
+      });
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should drop a throttled write when removed from the map", () => {
+    vi.useFakeTimers();
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        urlSync: true,
+      });
+      map.addControl(control);
+
+      control.setPosition([139.71, 35.61]);
+      control.setPosition([139.72, 35.62]);
+      map.removeControl(control);
+      vi.advanceTimersByTime(300);
+
+      expect(window.location.hash).toBe("#loc=139.71,35.61,50");
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      cleanupMap(map);
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Persistence)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+  const key = "maplibre-gl-manual-geolocate:position";
+
+  it("should save changes and restore them over the options", () => {
+    vi.useFakeTimers();
+    const storage = new MemoryStorage();
+    const setItem = vi.spyOn(storage, "setItem");
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        persistence: { storage },
+      });
+
+      control.setPosition([139.71, 35.61]);
+      control.setAccuracy(20);
+      control.setShowAccuracyCircle(false);
+      expect(JSON.parse(storage.getItem(key)!)).toEqual({
+        position: [139.71, 35.61],
+        accuracy: 50,
+        showAccuracyCircle: true,
+      });
+
+      // Throttled, the latest state wins
+      vi.advanceTimersByTime(1000);
+      expect(setItem).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(storage.getItem(key)!)).toEqual({
+        position: [139.71, 35.61],
+        accuracy: 20,
+        showAccuracyCircle: false,
+      });
+
+      const restored = new ManualGeolocateControl({
+        position: defaultPosition,
+        accuracy: 50,
+        persistence: { storage },
+      });
+      expect(restored.getGeolocationPosition().coords).toMatchObject({
+        longitude: 139.71,
+        latitude: 35.61,
+        accuracy: 20,
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should write a throttled state when the page is hidden", () => {
+    vi.useFakeTimers();
+    const storage = new MemoryStorage();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        persistence: { storage },
+      });
+
+      control.setPosition([139.71, 35.61]);
+      control.setPosition([139.72, 35.62]);
+      window.dispatchEvent(new Event("pagehide"));
+
+      expect(JSON.parse(storage.getItem(key)!).position).toEqual([
+        139.72, 35.62,
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should namespace the key and ignore invalid state", () => {
+    const storage = new MemoryStorage();
+    storage.setItem("maplibre-gl-manual-geolocate:team-a", "{not json");
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      persistence: { storage, key: "team-a" },
+    });
+
+    expect(control.getGeolocationPosition().coords.longitude).toBe(139.7);
+
+    control.setPosition([139.8, 35.7]);
+    expect(storage.getItem("maplibre-gl-manual-geolocate:team-a")).toContain(
+      "139.8",
+    );
+    expect(storage.getItem(key)).toBeNull();
+  });
+
+  it("should reset to the constructor values and forget the saved state", () => {
+    const storage = new MemoryStorage();
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      accuracy: 30,
+      persistence: { storage },
+    });
+    const listener = vi.fn();
+    control.onPositionChange(listener);
+
+    control.setPosition([139.71, 35.61]);
+    control.setAccuracy(5);
+    control.resetToDefault();
+
+    expect(control.getGeolocationPosition().coords).toMatchObject({
+      longitude: 139.7,
+      latitude: 35.6,
+      accuracy: 30,
+    });
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(storage.getItem(key)).toBeNull();
+  });
+
+  it("should use localStorage by default", () => {
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        persistence: true,
+      });
+      control.setPosition([139.72, 35.62]);
+
+      expect(localStorage.getItem(key)).toContain("139.72");
+    } finally {
+      localStorage.removeItem(key);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Coordinate strings)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  it("should move to a parsed position with the geo: URI accuracy", () => {
+    const control = new ManualGeolocateControl({
+      position: defaultPosition,
+      accuracy: 10,
+    });
+
+    const parsed = control.setPositionFromString(
+      "geo:35.6895,139.6917,40;u=30",
+    );
+
+    expect(parsed.format).toBe("geo");
+    expect(control.getGeolocationPosition().coords).toMatchObject({
+      longitude: 139.6917,
+      latitude: 35.6895,
+      accuracy: 30,
+      altitude: 40,
+    });
+  });
+
+  it("should keep the position when the string is invalid", () => {
+    const control = new ManualGeolocateControl({ position: defaultPosition });
+    const listener = vi.fn();
+    control.onPositionChange(listener);
+
+    expect(() => control.setPositionFromString("Tokyo")).toThrow(
+      CoordinateParseError,
+    );
+    expect(listener).not.toHaveBeenCalled();
+    expect(control.getGeolocationPosition().coords).toMatchObject({
+      longitude: 139.7,
+      latitude: 35.6,
+    });
+  });
+});
+
+describe("ManualGeolocateControl (Panel)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  function getPanelElements(map: import("maplibre-gl").Map) {
+    const container = map.getContainer();
+    const query = <T extends Element>(selector: string) =>
+      container.querySelector<T>(selector)!;
+    return {
+      toggle: query<HTMLButtonElement>(
+        ".maplibregl-ctrl-manual-geolocate-panel-toggle",
+      ),
+      panel: query<HTMLFormElement>(".maplibregl-manual-geolocate-panel"),
+      coordinates: query<HTMLInputElement>("input[type=text]"),
+      error: query<HTMLElement>(".maplibregl-manual-geolocate-panel-error"),
+      slider: query<HTMLInputElement>("input[type=range]"),
+      checkbox: query<HTMLInputElement>("input[type=checkbox]"),
+    };
+  }
+
+  it("should open and close from the button and the keyboard", () => {
+    const map = createMap();
+
+    try {
+      map.addControl(
+        new ManualGeolocateControl({ position: defaultPosition, panel: true }),
+      );
+      const { toggle, panel, coordinates } = getPanelElements(map);
+      expect(panel.hidden).toBe(true);
+      expect(toggle.getAttribute("aria-controls")).toBe(panel.id);
+
+      toggle.click();
+      expect(panel.hidden).toBe(false);
+      expect(toggle.getAttribute("aria-expanded")).toBe("true");
+      expect(document.activeElement).toBe(coordinates);
+
+      coordinates.dispatchEvent(
+        new KeyboardEvent("keydown", { key: "Escape", bubbles: true }),
+      );
+      expect(panel.hidden).toBe(true);
+      expect(toggle.getAttribute("aria-expanded")).toBe("false");
+      expect(document.activeElement).toBe(toggle);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should show the control state in the fields", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        accuracy: 50,
+        panel: { open: true },
+      });
+      map.addControl(control);
+      const { coordinates, slider, checkbox } = getPanelElements(map);
+      expect(coordinates.value).toBe("35.600000, 139.700000");
+      expect(slider.value).toBe("50");
+      expect(checkbox.checked).toBe(true);
+
+      control.setPosition([139.71, 35.61]);
+      control.setAccuracy(100);
+      control.setShowAccuracyCircle(false);
+      expect(coordinates.value).toBe("35.610000, 139.710000");
+      expect(slider.getAttribute("aria-valuetext")).toBe("100 m");
+      expect(checkbox.checked).toBe(false);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should move to the entered coordinates and trigger on Go", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        panel: { open: true },
+      });
+      map.addControl(control);
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+      const { panel, coordinates, error } = getPanelElements(map);
+
+      coordinates.value = "Tokyo";
+      panel.requestSubmit();
+      expect(error.textContent).toBe("Unrecognized coordinates");
+      expect(coordinates.getAttribute("aria-invalid")).toBe("true");
+      expect(geolocateHandler).not.toHaveBeenCalled();
+
+      coordinates.value = `35°41'22"N 139°41'30"E`;
+      coordinates.dispatchEvent(new Event("input"));
+      expect(error.textContent).toBe("");
+      panel.requestSubmit();
+
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+      const { coords } = geolocateHandler.mock.calls[0][0];
+      expect(coords.latitude).toBeCloseTo(35.689444, 6);
+      expect(coords.longitude).toBeCloseTo(139.691667, 6);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should keep tracking on when Go is pressed while tracking", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trackUserLocation: true,
+        panel: { open: true },
+      });
+      map.addControl(control);
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+      const { panel, coordinates } = getPanelElements(map);
+
+      coordinates.value = "35.68, 139.76";
+      panel.requestSubmit();
+      expect(control.getWatchState()).toBe("ACTIVE_LOCK");
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+
+      coordinates.value = "35.69, 139.70";
+      panel.requestSubmit();
+      expect(control.getWatchState()).toBe("ACTIVE_LOCK");
+      expect(geolocateHandler).toHaveBeenCalledTimes(2);
+      expect(geolocateHandler.mock.calls[1][0].coords.latitude).toBe(35.69);
+      expect(
+        map.getContainer().querySelector(".maplibregl-user-location-dot"),
+      ).not.toBeNull();
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should set the accuracy and circle from the form and clean up", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        panel: { open: true, maxAccuracy: 500 },
+      });
+      map.addControl(control);
+      const { slider, checkbox } = getPanelElements(map);
+      expect(slider.max).toBe("500");
+
+      slider.value = "200";
+      slider.dispatchEvent(new Event("input"));
+      expect(control.getGeolocationPosition().coords.accuracy).toBe(200);
+
+      control.trigger();
+      const circleSelector = ".maplibregl-user-location-accuracy-circle";
+      expect(map.getContainer().querySelector(circleSelector)).not.toBeNull();
+      checkbox.click();
+      expect(map.getContainer().querySelector(circleSelector)).toBeNull();
+
+      control.onRemove();
+      expect(
+        map.getContainer().querySelector(".maplibregl-manual-geolocate-panel"),
+      ).toBeNull();
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Presets)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+  const presets: PositionPreset[] = [
+    { id: "tokyo", label: "Tokyo", position: [139.7671, 35.6812] },
+    {
+      id: "sapporo",
+      label: "Sapporo",
+      position: { lng: 141.3544, lat: 43.0686 },
+      accuracy: 200,
+      zoom: 12,
+    },
+  ];
+
+  function getMenuElements(map: import("maplibre-gl").Map) {
+    const container = map.getContainer();
+    const button = container.querySelector<HTMLButtonElement>(
+      ".maplibregl-ctrl-manual-geolocate-presets",
+    )!;
+    const menu = container.querySelector<HTMLElement>(
+      ".maplibregl-manual-geolocate-presets",
+    )!;
+    const items = () =>
+      Array.from(menu.querySelectorAll<HTMLElement>("[role=menuitem]"));
+    return { button, menu, items };
+  }
+
+  it("should list the presets and select them from the menu", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        accuracy: 30,
+        presets,
+      });
+      map.addControl(control);
+      const presetHandler = vi.fn();
+      const geolocateHandler = vi.fn();
+      control.on("presetselect", presetHandler);
+      control.on("geolocate", geolocateHandler);
+      const { button, menu, items } = getMenuElements(map);
+      expect(button.getAttribute("aria-haspopup")).toBe("menu");
+      expect(items().map((item) => item.textContent)).toEqual([
+        "Tokyo",
+        "Sapporo",
+      ]);
+
+      button.click();
+      expect(menu.hidden).toBe(false);
+      expect(document.activeElement).toBe(items()[0]);
+
+      items()[0].click();
+      expect(menu.hidden).toBe(true);
+      expect(document.activeElement).toBe(button);
+      expect(presetHandler.mock.calls[0][0].preset.id).toBe("tokyo");
+      expect(geolocateHandler).toHaveBeenCalledTimes(1);
+      // Presets without an accuracy keep the current one
+      expect(control.getGeolocationPosition().coords).toMatchObject({
+        longitude: 139.7671,
+        latitude: 35.6812,
+        accuracy: 30,
+      });
+      expect(
+        (
+          map as unknown as { getFitBoundsCalls: () => any[] }
+        ).getFitBoundsCalls(),
+      ).toHaveLength(1);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should zoom to a preset zoom and use its accuracy", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        presets,
+      });
+      map.addControl(control);
+
+      control.selectPreset("sapporo");
+
+      expect(control.getGeolocationPosition().coords.accuracy).toBe(200);
+      const flyToCalls = (
+        map as unknown as { getFlyToCalls: () => any[] }
+      ).getFlyToCalls();
+      expect(flyToCalls).toHaveLength(1);
+      expect(flyToCalls[0].zoom).toBe(12);
+      expect(flyToCalls[0].center.toArray()).toEqual([141.3544, 43.0686]);
+      expect(() => control.selectPreset("osaka")).toThrow(
+        'ManualGeolocateControl: no preset with id "osaka"',
+      );
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should navigate the menu with the keyboard", () => {
+    const map = createMap();
+
+    try {
+      map.addControl(
+        new ManualGeolocateControl({ position: defaultPosition, presets }),
+      );
+      const { button, menu, items } = getMenuElements(map);
+      const press = (target: HTMLElement, key: string) =>
+        target.dispatchEvent(
+          new KeyboardEvent("keydown", { key, bubbles: true }),
+        );
+
+      press(button, "ArrowUp");
+      expect(document.activeElement).toBe(items()[1]);
+      press(items()[1], "ArrowDown");
+      expect(document.activeElement).toBe(items()[0]);
+      press(items()[0], "End");
+      expect(document.activeElement).toBe(items()[1]);
+
+      press(items()[1], "Escape");
+      expect(menu.hidden).toBe(true);
+      expect(document.activeElement).toBe(button);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should add and remove presets at runtime", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        presets,
+      });
+      map.addControl(control);
+
+      control.addPreset({
+        id: "osaka",
+        label: "Osaka",
+        position: [135.5, 34.7],
+      });
+      control.removePreset("tokyo");
+      control.removePreset("unknown");
+
+      expect(control.getPresets().map(({ id }) => id)).toEqual([
+        "sapporo",
+        "osaka",
+      ]);
+      expect(
+        getMenuElements(map)
+          .items()
+          .map((item) => item.textContent),
+      ).toEqual(["Sapporo", "Osaka"]);
+      expect(() =>
+        control.addPreset({ id: "osaka", label: "Osaka", position: [0, 0] }),
+      ).toThrow('ManualGeolocateControl: preset "osaka" already exists');
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should save places across page loads", () => {
+    const storage = new MemoryStorage();
+    const key = "maplibre-gl-manual-geolocate:places";
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        accuracy: 40,
+        presets,
+        savedPlaces: { storage },
+      });
+      map.addControl(control);
+      const { button, items } = getMenuElements(map);
+
+      button.click();
+      items().at(-1)!.click();
+      expect(items().map((item) => item.textContent)).toEqual([
+        "Tokyo",
+        "Sapporo",
+        "35.60000, 139.70000",
+        "Save current position",
+      ]);
+
+      const saved = JSON.parse(storage.getItem(key)!);
+      expect(saved).toHaveLength(1);
+      expect(saved[0]).toMatchObject({ position: [139.7, 35.6], accuracy: 40 });
+
+      // Options presets are not saved, and saved places are removed with Delete
+      const reloaded = new ManualGeolocateControl({
+        position: defaultPosition,
+        savedPlaces: { storage },
+      });
+      expect(reloaded.getPresets().map(({ label }) => label)).toEqual([
+        "35.60000, 139.70000",
+      ]);
+
+      items()[0].dispatchEvent(
+        new KeyboardEvent("keydown", { key: "Delete", bubbles: true }),
+      );
+      expect(control.getPresets()).toHaveLength(3);
+      items()[2].dispatchEvent(
+        new KeyboardEvent("keydown", { key: "Delete", bubbles: true }),
+      );
+      expect(control.getPresets()).toHaveLength(2);
+      expect(JSON.parse(storage.getItem(key)!)).toEqual([]);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Labels)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  function getAnnouncer(map: import("maplibre-gl").Map) {
+    return map
+      .getContainer()
+      .querySelector<HTMLElement>(".maplibregl-manual-geolocate-announcer")!;
+  }
+
+  it("should prefer the labels option over the map locale", () => {
+    const map = createMap();
+    const locale: Record<string, string> = {
+      "GeolocateControl.FindMyLocation": "Meinen Standort finden",
+      "ManualGeolocateControl.OpenPanel": "Koordinaten eingeben",
+      "ManualGeolocateControl.Go": "Los",
+    };
+    Object.assign(map, {
+      _getUIString(key: string) {
+        if (!(key in locale)) {
+          throw new Error(`Missing UI string '${key}'`);
+        }
+        return locale[key];
+      },
+    });
+
+    try {
+      map.addControl(
+        new ManualGeolocateControl({
+          position: defaultPosition,
+          panel: true,
+          labels: { go: "Anzeigen" },
+        }),
+      );
+      const container = map.getContainer();
+
+      const button = container.querySelector(".maplibregl-ctrl-geolocate")!;
+      expect(button.getAttribute("aria-label")).toBe("Meinen Standort finden");
+      expect(
+        container
+          .querySelector(".maplibregl-ctrl-manual-geolocate-panel-toggle")!
+          .getAttribute("title"),
+      ).toBe("Koordinaten eingeben");
+      expect(
+        container.querySelector(".maplibregl-manual-geolocate-panel-go")!
+          .textContent,
+      ).toBe("Anzeigen");
+      // Labels missing from both fall back to English
+      expect(container.querySelector("label")!.textContent).toBe(
+        "Coordinates or link",
+      );
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should announce the position after trigger()", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        accuracy: 42.4,
+        labels: {
+          positionFound: "現在地: 緯度 {lat}、経度 {lng}、精度 {accuracy} m",
+        },
+      });
+      map.addControl(control);
+      const announcer = getAnnouncer(map);
+      expect(announcer.getAttribute("aria-live")).toBe("polite");
+      expect(announcer.textContent).toBe("");
+
+      control.trigger();
+      const text = "現在地: 緯度 35.60000、経度 139.70000、精度 42 m";
+      expect(announcer.textContent).toBe(text);
+
+      // Repeated announcements change the text so they are read again
+      control.trigger();
+      expect(announcer.textContent).not.toBe(text);
+      expect(announcer.textContent?.trim()).toBe(text);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should announce errors and positions outside the max bounds", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        simulatedError: { code: 2 },
+      });
+      map.addControl(control);
+      const announcer = getAnnouncer(map);
+
+      control.trigger();
+      expect(announcer.textContent).toBe("Location not available");
+
+      control.setSimulatedError(null);
+      map.setMaxBounds([
+        [0, 0],
+        [1, 1],
+      ]);
+      control.trigger();
+      expect(announcer.textContent).toBe("Location is outside the map bounds");
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Marker style)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  function getCustomProperty(element: Element, name: string) {
+    return (element as HTMLElement).style.getPropertyValue(
+      `--maplibregl-manual-geolocate-${name}`,
+    );
+  }
+
+  it("should keep the native look unless a marker style is set", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+      });
+      map.addControl(control);
+      control.trigger();
+      const container = map.getContainer();
+      const dot = container.querySelector(".maplibregl-user-location-dot")!;
+      const circle = container.querySelector(
+        ".maplibregl-user-location-accuracy-circle",
+      )!;
+
+      expect(dot.getAttribute("style")).toBeNull();
+      expect(getCustomProperty(circle, "accuracy-fill")).toBe("");
+
+      control.setMarkerStyle({
+        dotColor: "#e4007f",
+        dotSize: 20,
+        accuracyFillOpacity: 0.1,
+        accuracyStrokeWidth: 2,
+      });
+      expect(getCustomProperty(dot, "dot-color")).toBe("#e4007f");
+      expect(getCustomProperty(dot, "dot-size")).toBe("20px");
+      expect(getCustomProperty(dot, "dot-border-color")).toBe("");
+      expect(getCustomProperty(circle, "accuracy-fill")).toBe(
+        "color-mix(in srgb, #1da1f2 10%, transparent)",
+      );
+      expect(getCustomProperty(circle, "accuracy-stroke-width")).toBe("2px");
+
+      // Properties set to undefined return to the native look
+      control.setMarkerStyle({ dotColor: undefined });
+      expect(getCustomProperty(dot, "dot-color")).toBe("");
+      expect(getCustomProperty(dot, "dot-size")).toBe("20px");
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should paint the accuracy layers with the marker style", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        accuracyCircleMode: "layer",
+        markerStyle: { accuracyFillColor: "#e4007f" },
+      });
+      map.addControl(control);
+      const fill = map.getLayer("manual-geolocate-accuracy-fill")!;
+      const line = map.getLayer("manual-geolocate-accuracy-line")!;
+
+      expect(fill.paint).toEqual({
+        "fill-color": "#e4007f",
+        "fill-opacity": 0.2,
+      });
+
+      control.setMarkerStyle({ accuracyStrokeOpacity: 1 });
+      expect(line.paint).toMatchObject({
+        "line-color": "#1da1f2",
+        "line-opacity": 1,
+      });
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should show and render a custom position element", () => {
+    const map = createMap();
+
+    try {
+      const avatar = document.createElement("img");
+      const renderPosition = vi.fn();
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trackUserLocation: true,
+        positionElement: avatar,
+        renderPosition,
+      });
+      map.addControl(control);
+      expect(renderPosition).toHaveBeenLastCalledWith(
+        avatar,
+        expect.objectContaining({
+          coords: expect.objectContaining({ latitude: 35.6 }),
+        }),
+      );
+
+      control.trigger();
+      const container = map.getContainer();
+      expect(avatar.parentElement).toBe(container);
+      expect(
+        container.querySelector(".maplibregl-user-location-dot"),
+      ).toBeNull();
+
+      control.setSpeed(3);
+      expect(renderPosition).toHaveBeenLastCalledWith(
+        avatar,
+        expect.objectContaining({
+          coords: expect.objectContaining({ speed: 3 }),
+        }),
+      );
+
+      // The native stale style would grey the element's background
+      control.setSimulatedError({ code: 2 });
+      expect(
+        avatar.classList.contains("maplibregl-manual-geolocate-position-stale"),
+      ).toBe(true);
+      expect(
+        avatar.classList.contains("maplibregl-user-location-dot-stale"),
+      ).toBe(false);
+
+      control.setPositionElement(null);
+      expect(avatar.parentElement).toBeNull();
+      expect(avatar.className).toBe("");
+      const dot = container.querySelector(".maplibregl-user-location-dot")!;
+      expect(dot.classList.contains("maplibregl-user-location-dot-stale")).toBe(
+        true,
+      );
+      expect(renderPosition).toHaveBeenLastCalledWith(dot, expect.anything());
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should skip injecting the stylesheet when injectStyles is false", () => {
+    const map = createMap();
+    const getStyle = () =>
+      document.getElementById("maplibregl-manual-geolocate-styles");
+    getStyle()?.remove();
+
+    try {
+      map.addControl(
+        new ManualGeolocateControl({
+          position: defaultPosition,
+          injectStyles: false,
+        }),
+      );
+      expect(getStyle()).toBeNull();
+
+      map.addControl(new ManualGeolocateControl({ position: defaultPosition }));
+      expect(getStyle()?.tagName).toBe("STYLE");
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Staleness)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should mark the position stale after maximumAge", () => {
+    vi.useFakeTimers();
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        maximumAge: 60_000,
+      });
+      const staleHandler = vi.fn();
+      const freshHandler = vi.fn();
+      control.on("positionstale", staleHandler);
+      control.on("positionfresh", freshHandler);
+      map.addControl(control);
+      control.trigger();
+      const dot = map
+        .getContainer()
+        .querySelector(".maplibregl-user-location-dot")!;
+
+      vi.advanceTimersByTime(59_999);
+      expect(control.isPositionStale()).toBe(false);
+      expect(staleHandler).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(control.isPositionStale()).toBe(true);
+      expect(staleHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ age: 60_000 }),
+      );
+      expect(dot.classList.contains("maplibregl-user-location-dot-stale")).toBe(
+        true,
+      );
+
+      // A new position is fresh again
+      control.setPosition([139.71, 35.61]);
+      expect(freshHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ age: 0 }),
+      );
+      expect(dot.classList.contains("maplibregl-user-location-dot-stale")).toBe(
+        false,
+      );
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should age positions from their timestamp", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        timestamp: 1_700_000_000_000 - 120_000,
+        maximumAge: 60_000,
+      });
+      const staleHandler = vi.fn();
+      control.on("positionstale", staleHandler);
+      map.addControl(control);
+
+      expect(staleHandler).toHaveBeenCalledTimes(1);
+      expect(control.getGeolocationPosition().age).toBe(120_000);
+
+      const geolocateHandler = vi.fn();
+      control.on("geolocate", geolocateHandler);
+      control.updatePosition({
+        position: [139.71, 35.61],
+        timestamp: 1_700_000_000_000 - 10_000,
+      });
+      expect(control.isPositionStale()).toBe(false);
+      expect(geolocateHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ age: 10_000 }),
+      );
+
+      // Raising the limit keeps an old position fresh
+      control.setMaximumAge(Number.POSITIVE_INFINITY);
+      vi.advanceTimersByTime(600_000);
+      expect(staleHandler).toHaveBeenCalledTimes(1);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
+
+describe("ManualGeolocateControl (Events)", () => {
+  const defaultPosition = { lng: 139.7, lat: 35.6 };
+
+  it("should support once() with and without a listener", async () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+      });
+      map.addControl(control);
+
+      const onceHandler = vi.fn();
+      control.once("geolocate", onceHandler);
+      const promise = control.once("geolocate");
+      control.trigger();
+      control.trigger();
+
+      expect(onceHandler).toHaveBeenCalledTimes(1);
+      const event = await promise;
+      expect(event).toMatchObject({
+        type: "geolocate",
+        target: control,
+        source: "api",
+        coords: { latitude: 35.6, longitude: 139.7 },
+      });
+
+      const handler = vi.fn();
+      const subscription = control.on("geolocate", handler);
+      subscription.unsubscribe();
+      control.trigger();
+      expect(handler).not.toHaveBeenCalled();
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should report the source of each event", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        draggable: true,
+      });
+      map.addControl(control);
+      const sources: string[] = [];
+      control.on("geolocate", ({ source }) =>
+        sources.push(`geolocate ${source}`),
+      );
+      control.on("positionchange", ({ source }) =>
+        sources.push(`positionchange ${source}`),
+      );
+
+      map
+        .getContainer()
+        .querySelector<HTMLButtonElement>(".maplibregl-ctrl-geolocate")!
+        .click();
+      (control as any)._positionMarker.drag([139.8, 35.7]);
+      control.updatePosition({ position: [139.9, 35.8], source: "playback" });
+      control.setPosition([139.7, 35.6]);
+
+      expect(sources).toEqual([
+        "geolocate button",
+        "positionchange drag",
+        "positionchange playback",
+        "geolocate playback",
+        "positionchange api",
+      ]);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+
+  it("should fire change, marker and lifecycle events", () => {
+    const map = createMap();
+
+    try {
+      const control = new ManualGeolocateControl({
+        position: defaultPosition,
+        trackUserLocation: true,
+      });
+      const events: string[] = [];
+      for (const type of [
+        "add",
+        "remove",
+        "positionchange",
+        "accuracychange",
+        "markershow",
+        "markerhide",
+      ] as const) {
+        control.on(type, () => events.push(type));
+      }
+
+      map.addControl(control);
+      control.trigger();
+      control.setAccuracy(20);
+      control.setAccuracy(20);
+      control.setCoords({ longitude: 139.8, accuracy: 30 });
+      // Switches tracking off
+      control.trigger();
+      map.removeControl(control);
+
+      expect(events).toEqual([
+        "add",
+        "markershow",
+        "accuracychange",
+        "positionchange",
+        "accuracychange",
+        "markerhide",
+        "remove",
+      ]);
+    } finally {
+      cleanupMap(map);
+    }
+  });
+});
@@ -3,16 +3,89 @@ import maplibregl, {
   type IControl,
   type LngLatLike,
   type Map,
+  type MapEventType,
+  type MapMouseEvent,
+  type Subscription,
 } from "maplibre-gl";
-import type { EventHandlers, ManualGeolocateControlOptions } from "./types";
+import {
+  AccuracyLayer,
+  type AccuracyPaint,
+  DEFAULT_ACCURACY_PAINT,
+} from "./AccuracyLayer";
+import { CoordinatePanel } from "./CoordinatePanel";
+import { parseCoordinates } from "./coordinateParser";
+import {
+  createGeolocationPosition,
+  createGeolocationPositionError,
+} from "./geolocation";
+import { formatLabel, resolveLabels } from "./labels";
+import { PresetMenu } from "./PresetMenu";
+import { StatePersistence, validatePresets } from "./storage";
+import { injectStyles } from "./styles";
+import { TrailLayer } from "./TrailLayer";
+import type {
+  CoordinatePanelOptions,
+  CoordinateParserOptions,
+  ManualGeolocateControlOptions,
+  ManualGeolocateDragEvent,
+  ManualGeolocateEvent,
+  ManualGeolocateEventListener,
+  ManualGeolocateEventMap,
+  ManualGeolocateEventSource,
+  ManualGeolocateEventType,
+  ManualGeolocateLabels,
+  ManualGeolocateWatchState,
+  ManualGeolocationCoordinates,
+  ManualGeolocationPosition,
+  MarkerStyle,
+  ParsedCoordinates,
+  PositionFix,
+  PositionHistoryEntry,
+  PositionPreset,
+  PositionRenderer,
+  PositionSource,
+  SimulatedGeolocationError,
+  TrailOptions,
+  UncertaintyEllipse,
+} from "./types";
+import { UrlSync } from "./UrlSync";
+
+// Longest delay setTimeout() supports; longer ones fire at once
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+// Pixels the dot moves per arrow key press, and with Shift held
+const NUDGE_PIXELS = 10;
+const NUDGE_PIXELS_LARGE = 50;
+
+// Minimum milliseconds between writes of the persisted state, which changes on every
+// frame of a route playback
+const SAVE_INTERVAL = 1000;
+
+// How long the button must be held to enter position pick mode
+const LONG_PRESS_DURATION = 500;
+
+// Screen direction of each arrow key
+const NUDGE_OFFSETS: Partial<Record<string, [number, number]>> = {
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+};
+
+// A movestart event: camera changes made by this control carry geolocateSource, and
+// map resizes copy the ResizeObserver entries onto the event
+type MoveStartEvent = MapEventType["movestart"] & {
+  geolocateSource?: boolean;
+  0?: unknown;
+};
 
 /**
  * A MapLibre GL control that displays a user position marker at specified coordinates
  * without requiring the browser's geolocation API.
  *
- * Unlike the native GeolocateControl, this manual version does not support tracking mode
- * since it works with static, predefined coordinates. Each trigger simply shows/updates
- * the marker position without continuous location updates.
+ * By default each trigger simply shows/updates the marker position. With
+ * `trackUserLocation: true` the button becomes a toggle like the native control, and
+ * the camera follows updates made through `setPosition()` while the lock is active.
  *
  * @example
  * ```typescript
@@ -23,23 +96,127 @@ import type { EventHandlers, ManualGeolocateControlOptions } from "./types";
  * map.addControl(manualGeolocateControl, 'top-right');
  * ```
  */
-export class ManualGeolocateControl implements IControl {
+export class ManualGeolocateControl
+  extends maplibregl.Evented
+  implements IControl, PositionSource
+{
   private _map?: Map;
   private _container?: HTMLElement;
   private _button?: HTMLButtonElement;
 
-  // Options (will be used in future steps)
+  // Visually hidden live region announcing the result of trigger() to screen readers
+  private _announcer?: HTMLElement;
+
+  // Text of the UI, from the labels option, the map's locale and the defaults
+  private _labelOptions: Partial<ManualGeolocateLabels>;
+  private _labels: ManualGeolocateLabels;
+
+  // Current position, its coordinate fields and the behaviour set through the options
   private _position: maplibregl.LngLat;
   private _accuracy: number;
+  private _uncertaintyEllipse: UncertaintyEllipse | null;
   private _showAccuracyCircle: boolean;
+  private _accuracyCircleMode: "marker" | "layer";
+  private _accuracyCircleLayerId: string;
+  private _accuracyCircleBeforeId?: string;
   private _fitBoundsOptions: FitBoundsOptions;
-
-  // Event handlers storage
-  private _eventHandlers: EventHandlers = {};
-
-  // Markers for position and accuracy
+  private _trackUserLocation: boolean;
+  private _showUserHeading: boolean;
+  private _draggable: boolean;
+  private _geolocateOnDragEnd: boolean;
+  private _enablePositionPick: boolean;
+  private _simulatedError: SimulatedGeolocationError | null;
+  private _permissionState: PermissionState;
+  private _heading: number | null;
+  private _altitude: number | null;
+  private _altitudeAccuracy: number | null;
+  private _speed: number | null;
+  // Explicit timestamp for events, or undefined to stamp each event with the current time
+  private _timestamp?: number;
+
+  // When the position was last set, which its age counts from without a timestamp
+  private _positionTime = Date.now();
+
+  // Age at which the position is stale, and whether it was last reported stale
+  private _maximumAge: number;
+  private _stale = false;
+  private _staleTimer?: ReturnType<typeof setTimeout>;
+
+  // Tracking mode state (only used when trackUserLocation is enabled)
+  private _watchState: ManualGeolocateWatchState = "OFF";
+
+  // Source of the events fired by the current call (see _runWithSource())
+  private _source: ManualGeolocateEventSource = "api";
+
+  // Position and accuracy last reported by positionchange and accuracychange
+  private _reportedPosition: maplibregl.LngLat;
+  private _reportedAccuracy: number;
+  private _reportedEllipse: UncertaintyEllipse | null;
+
+  // Listeners registered through onPositionChange()
+  private _positionChangeListeners: Array<() => void> = [];
+
+  // Past positions from oldest to newest (only kept when the trail is enabled)
+  private _trailOptions: TrailOptions | null;
+  private _history: PositionHistoryEntry[] = [];
+  private _trailLayer?: TrailLayer;
+  // When the newest entry was recorded, and the timer dropping entries past maxAge
+  private _historyRecordedAt = 0;
+  private _trailTimer?: ReturnType<typeof setTimeout>;
+
+  // Keeps the position in the page URL (only set when urlSync is enabled)
+  private _urlSync?: UrlSync;
+
+  // Saves the state across reloads (only set when persistence is enabled)
+  private _persistence?: StatePersistence;
+
+  // Coordinate entry panel in the control group (only set when the panel is enabled)
+  private _panelOptions: CoordinatePanelOptions | null;
+  private _panel?: CoordinatePanel;
+
+  // Presets listed in the menu, and the ones saved across page loads
+  private _presets: PositionPreset[] = [];
+  private _savedPresetIds = new Set<string>();
+  private _savedPlaces?: StatePersistence<PositionPreset[]>;
+  private _showPresets: boolean;
+  private _presetMenu?: PresetMenu;
+
+  // Zoom of the preset being selected, used instead of fitting the accuracy
+  private _presetZoom?: number;
+
+  // Constructor values restored by resetToDefault()
+  private _defaults: {
+    position: maplibregl.LngLat;
+    accuracy: number;
+    uncertaintyEllipse: UncertaintyEllipse | null;
+    showAccuracyCircle: boolean;
+  };
+
+  // Look of the markers, and the element and callback replacing the stock dot
+  private _markerStyle: MarkerStyle;
+  private _positionElement: HTMLElement | null;
+  private _renderPosition: PositionRenderer | null;
+  private _injectStyles: boolean;
+
+  // Markers for position, accuracy and heading
   private _positionMarker?: maplibregl.Marker;
   private _accuracyMarker?: maplibregl.Marker;
+  private _accuracyLayer?: AccuracyLayer;
+  private _headingMarker?: maplibregl.Marker;
+
+  // Track if the markers are currently added to the map
+  private _markersVisible = false;
+  private _headingMarkerVisible = false;
+
+  // Pending delayed simulated error
+  private _errorTimer?: ReturnType<typeof setTimeout>;
+
+  // Whether the dot is being nudged with the arrow keys
+  private _keyboardDragging = false;
+
+  // Bound keyboard handlers of the dot (stored to ensure removal from custom elements)
+  private _onDotKeyDownHandler?: (event: KeyboardEvent) => void;
+  private _onDotKeyUpHandler?: (event: Event) => void;
 
   // Track if we've set up map event listeners
   private _mapEventListenersSetup = false;
@@ -48,13 +225,34 @@ export class ManualGeolocateControl implements IControl {
   private _updateCircleHandler?: () => void;
 
   // Bound click handler (stored to ensure proper removal)
-  private _onClickHandler?: () => void;
+  private _onClickHandler?: (event: MouseEvent) => void;
+
+  // Long-press detection on the button for position pick mode
+  private _onPointerDownHandler?: () => void;
+  private _onPointerUpHandler?: () => void;
+  private _longPressTimer?: ReturnType<typeof setTimeout>;
+  private _suppressNextClick = false;
+
+  // Bound handlers while position pick mode is active
+  private _onPickClickHandler?: (event: MapMouseEvent) => void;
+  private _onPickKeyDownHandler?: (event: KeyboardEvent) => void;
+
+  // Bound movestart handler for tracking mode (stored to ensure proper removal)
+  private _onMoveStartHandler?: (event: MoveStartEvent) => void;
+
+  // Whether the map uses a globe projection, where the accuracy circle is drawn with layers
+  private _globe = false;
+  private _onProjectionTransitionHandler?: (event: {
+    newProjection: string;
+  }) => void;
 
   /**
    * Creates a new ManualGeolocateControl instance
    * @param options - Configuration options for the control
    */
   constructor(options: ManualGeolocateControlOptions) {
+    super();
+
     // Validate required position option
     if (!options.position) {
       throw new Error("ManualGeolocateControl: position option is required");
@@ -65,8 +263,103 @@ export class ManualGeolocateControl implements IControl {
 
     // Set defaults for optional properties
     this._accuracy = options.accuracy ?? 50;
+    this._uncertaintyEllipse = options.uncertaintyEllipse ?? null;
+    if (this._uncertaintyEllipse) {
+      this._accuracy = equivalentRadius(this._uncertaintyEllipse);
+    }
     this._showAccuracyCircle = options.showAccuracyCircle ?? true;
+    this._accuracyCircleMode = options.accuracyCircleMode ?? "marker";
+    this._accuracyCircleLayerId =
+      options.accuracyCircleLayerId ?? "manual-geolocate-accuracy";
+    this._accuracyCircleBeforeId = options.accuracyCircleBeforeId;
     this._fitBoundsOptions = options.fitBoundsOptions ?? { maxZoom: 15 };
+    this._trackUserLocation = options.trackUserLocation ?? false;
+    this._showUserHeading = options.showUserHeading ?? false;
+    this._draggable = options.draggable ?? false;
+    this._geolocateOnDragEnd = options.geolocateOnDragEnd ?? false;
+    this._enablePositionPick = options.enablePositionPick ?? false;
+    this._simulatedError = options.simulatedError ?? null;
+    this._permissionState = options.permissionState ?? "granted";
+    this._heading = options.heading ?? null;
+    this._altitude = options.altitude ?? null;
+    this._altitudeAccuracy = options.altitudeAccuracy ?? null;
+    this._speed = options.speed ?? null;
+    this._timestamp = options.timestamp ?? undefined;
+    this._maximumAge = options.maximumAge ?? Number.POSITIVE_INFINITY;
+    this._trailOptions = options.trail === true ? {} : options.trail || null;
+    this._panelOptions = options.panel === true ? {} : options.panel || null;
+    this._labelOptions = options.labels ?? {};
+    this._labels = resolveLabels(undefined, this._labelOptions);
+    this._markerStyle = { ...options.markerStyle };
+    this._positionElement = options.positionElement ?? null;
+    this._renderPosition = options.renderPosition ?? null;
+    this._injectStyles = options.injectStyles ?? true;
+    this._showPresets = Boolean(options.presets || options.savedPlaces);
+    for (const preset of options.presets ?? []) {
+      this._presets.push(clonePreset(preset));
+    }
+
+    // Saved places follow the presets from the options, which win on id conflicts
+    if (options.savedPlaces) {
+      const { storage, key = "places" } =
+        options.savedPlaces === true ? {} : options.savedPlaces;
+      this._savedPlaces = new StatePersistence(storage, key, validatePresets);
+      for (const preset of this._savedPlaces.load() ?? []) {
+        if (!this._presets.some(({ id }) => id === preset.id)) {
+          this._presets.push(preset);
+          this._savedPresetIds.add(preset.id);
+        }
+      }
+    }
+
+    this._defaults = {
+      position: this._position,
+      accuracy: this._accuracy,
+      uncertaintyEllipse: this._uncertaintyEllipse,
+      showAccuracyCircle: this._showAccuracyCircle,
+    };
+
+    // Saved state takes precedence over the options
+    if (options.persistence) {
+      const { storage, key } =
+        options.persistence === true ? {} : options.persistence;
+      this._persistence = new StatePersistence(
+        storage,
+        key,
+        undefined,
+        SAVE_INTERVAL,
+      );
+      const state = this._persistence.load();
+      if (state) {
+        this._position = new maplibregl.LngLat(...state.position);
+        this._accuracy = state.accuracy;
+        this._uncertaintyEllipse = null;
+        this._showAccuracyCircle = state.showAccuracyCircle;
+      }
+    }
+
+    // A position in the URL takes precedence over both, as it was shared on purpose
+    if (options.urlSync) {
+      this._urlSync = new UrlSync(
+        options.urlSync === true ? {} : options.urlSync,
+      );
+      const location = this._urlSync.read();
+      if (location) {
+        this._position = new maplibregl.LngLat(location.lng, location.lat);
+        if (location.accuracy !== undefined) {
+          this._accuracy = location.accuracy;
+          this._uncertaintyEllipse = null;
+        }
+        if (location.heading !== undefined) {
+          this._heading = location.heading;
+        }
+      }
+    }
+
+    this._reportedPosition = this._position;
+    this._reportedAccuracy = this._accuracy;
+    this._reportedEllipse = this._uncertaintyEllipse;
+    this._recordHistory();
   }
 
   /**
@@ -78,6 +371,7 @@ export class ManualGeolocateControl implements IControl {
    */
   onAdd(map: Map): HTMLElement {
     this._map = map;
+    this._labels = resolveLabels(map, this._labelOptions);
 
     // Create container element
     this._container = document.createElement("div");
@@ -87,7 +381,7 @@ export class ManualGeolocateControl implements IControl {
     this._button = document.createElement("button");
     this._button.type = "button";
     this._button.className = "maplibregl-ctrl-geolocate";
-    this._button.title = "Find my location";
+    this._button.title = this._labels.findMyLocation;
 
     // Add icon span (required for MapLibre GL styles)
     const iconSpan = document.createElement("span");
@@ -98,13 +392,86 @@ export class ManualGeolocateControl implements IControl {
     // Add button to container
     this._container.appendChild(this._button);
 
+    this._announcer = document.createElement("div");
+    this._announcer.className = "maplibregl-manual-geolocate-announcer";
+    this._announcer.setAttribute("role", "status");
+    this._announcer.setAttribute("aria-live", "polite");
+    this._announcer.setAttribute("aria-atomic", "true");
+    this._container.appendChild(this._announcer);
+
     // Store bound click handler to enable proper removal
     this._onClickHandler = this._onClick.bind(this);
     this._button.addEventListener("click", this._onClickHandler);
 
+    if (this._enablePositionPick) {
+      this._onPointerDownHandler = this._onButtonPointerDown.bind(this);
+      this._onPointerUpHandler = this._onButtonPointerUp.bind(this);
+      this._button.addEventListener("pointerdown", this._onPointerDownHandler);
+      for (const type of ["pointerup", "pointerleave", "pointercancel"]) {
+        this._button.addEventListener(type, this._onPointerUpHandler);
+      }
+    }
+
+    if (this._panelOptions) {
+      this._panel = new CoordinatePanel(
+        this,
+        this._container,
+        this._labels,
+        (callback) => this._runWithSource("panel", callback),
+        this._panelOptions,
+      );
+      this._updatePanel();
+    }
+
+    if (this._showPresets) {
+      this._presetMenu = new PresetMenu(
+        this,
+        this._container,
+        this._labels,
+        Boolean(this._savedPlaces),
+      );
+      this._updatePresetMenu();
+    }
+
     // Create markers
     this._createMarkers();
+    this._updateButtonDisabled();
+    this._updateStaleness();
+
+    // Follow links pasted into the address bar of an open page
+    this._urlSync?.listen(({ lng, lat, accuracy, heading }) => {
+      this._runWithSource("url", () => {
+        this.setCoords({ longitude: lng, latitude: lat, accuracy, heading });
+      });
+    });
+
+    // Added before the accuracy layers so the trail is drawn beneath them
+    if (this._trailOptions) {
+      this._trailLayer = new TrailLayer(map, this._trailOptions);
+      this._pruneHistory();
+    }
 
+    // A DOM circle can't follow the curvature of the globe, so switch renderers
+    // whenever the projection changes
+    this._globe = isGlobeProjection(map.getProjection()?.type);
+    this._onProjectionTransitionHandler = (event) => {
+      this._globe = isGlobeProjection(event.newProjection);
+      this._updateAccuracyRenderer();
+    };
+    map.on("projectiontransition", this._onProjectionTransitionHandler);
+    this._updateAccuracyRenderer();
+
+    if (this._trackUserLocation) {
+      this._watchState = "OFF";
+      this._button.setAttribute("aria-pressed", "false");
+
+      // When the camera is changed by something other than this control, drop
+      // into background state so the marker keeps updating but the camera doesn't
+      this._onMoveStartHandler = this._onMoveStart.bind(this);
+      map.on("movestart", this._onMoveStartHandler);
+    }
+
+    this._fire("add", { map });
     return this._container;
   }
 
@@ -113,8 +480,17 @@ export class ManualGeolocateControl implements IControl {
    * and resources. This method is called by Map#removeControl.
    */
   onRemove(): void {
+    const map = this._map;
+
     // Remove map event listeners first
     this._removeMapEventListeners();
+    this.cancelPositionPick();
+    this._clearErrorTimer();
+    clearTimeout(this._staleTimer);
+    this._staleTimer = undefined;
+    this._stale = false;
+    clearTimeout(this._trailTimer);
+    this._trailTimer = undefined;
 
     // Clean up event listeners
     if (this._onClickHandler) {
@@ -122,364 +498,2177 @@ export class ManualGeolocateControl implements IControl {
       this._onClickHandler = undefined;
     }
 
+    if (this._onPointerDownHandler && this._onPointerUpHandler) {
+      this._clearLongPress();
+      this._button?.removeEventListener(
+        "pointerdown",
+        this._onPointerDownHandler,
+      );
+      for (const type of ["pointerup", "pointerleave", "pointercancel"]) {
+        this._button?.removeEventListener(type, this._onPointerUpHandler);
+      }
+      this._onPointerDownHandler = undefined;
+      this._onPointerUpHandler = undefined;
+    }
+
+    if (this._onMoveStartHandler) {
+      this._map?.off("movestart", this._onMoveStartHandler);
+      this._onMoveStartHandler = undefined;
+    }
+
+    if (this._onProjectionTransitionHandler) {
+      this._map?.off(
+        "projectiontransition",
+        this._onProjectionTransitionHandler,
+      );
+      this._onProjectionTransitionHandler = undefined;
+    }
+    this._watchState = "OFF";
+
     // Remove DOM elements
     this._container?.parentNode?.removeChild(this._container);
 
     // Remove markers from map
-    this._positionMarker?.remove();
-    this._positionMarker = undefined;
+    this._removePositionMarker();
 
     this._accuracyMarker?.remove();
     this._accuracyMarker = undefined;
 
+    this._accuracyLayer?.remove();
+    this._accuracyLayer = undefined;
+
+    this._trailLayer?.remove();
+    this._trailLayer = undefined;
+
+    this._urlSync?.destroy();
+    this._persistence?.flush();
+
+    this._panel?.remove();
+    this._panel = undefined;
+
+    this._presetMenu?.remove();
+    this._presetMenu = undefined;
+
+    this._headingMarker?.remove();
+    this._headingMarker = undefined;
+    this._markersVisible = false;
+    this._headingMarkerVisible = false;
+
     // Clean up references
     this._container = undefined;
     this._button = undefined;
+    this._announcer = undefined;
     this._map = undefined;
+
+    if (map) {
+      this._fire("remove", { map });
+    }
   }
 
   /**
-   * Create the position and accuracy markers
+   * Create the position, accuracy and heading markers
    * @private
    */
   private _createMarkers(): void {
-    // Create accuracy circle marker (appears behind position marker)
-    const accuracyEl = document.createElement("div");
-    accuracyEl.className = "maplibregl-user-location-accuracy-circle";
+    if (this._injectStyles) {
+      injectStyles();
+    }
 
-    this._accuracyMarker = new maplibregl.Marker({
-      element: accuracyEl,
-      pitchAlignment: "map", // Only accuracy circle needs pitch alignment
+    // Create accuracy circle marker (appears behind position marker).
+    // In "layer" mode the circle is drawn by an AccuracyLayer instead.
+    if (this._accuracyCircleMode === "marker") {
+      const accuracyEl = document.createElement("div");
+      accuracyEl.className =
+        "maplibregl-user-location-accuracy-circle maplibregl-manual-geolocate-accuracy";
+
+      this._accuracyMarker = new maplibregl.Marker({
+        element: accuracyEl,
+        pitchAlignment: "map", // Only accuracy circle needs pitch alignment
+        rotationAlignment: "map", // Keeps an uncertainty ellipse oriented to north
+        opacityWhenCovered: "0", // Hidden behind the globe
+      }).setLngLat(this._position);
+      // Note: Not adding to map yet - will be added when showing
+    }
+
+    // Create heading cone marker (between the accuracy circle and the dot).
+    // Aligned to the map so the cone points at the true heading under any bearing and pitch.
+    const headingEl = document.createElement("div");
+    headingEl.className = "maplibregl-user-location-heading";
+
+    this._headingMarker = new maplibregl.Marker({
+      element: headingEl,
+      rotationAlignment: "map",
+      pitchAlignment: "map",
+      opacityWhenCovered: "0",
     }).setLngLat(this._position);
-    // Note: Not adding to map yet - will be added when showing
 
-    // Create position marker (blue dot with white border and pulse animation)
-    const positionEl = document.createElement("div");
-    positionEl.className = "maplibregl-user-location-dot";
+    this._createPositionMarker();
+    this._applyMarkerStyle();
+  }
+
+  /**
+   * Create the marker at the position, showing the custom element or the stock dot
+   * @private
+   */
+  private _createPositionMarker(): void {
+    // Blue dot with white border and pulse animation, unless replaced
+    let positionEl = this._positionElement;
+    if (!positionEl) {
+      positionEl = document.createElement("div");
+      positionEl.className =
+        "maplibregl-user-location-dot maplibregl-manual-geolocate-dot";
+    }
 
     this._positionMarker = new maplibregl.Marker({
       element: positionEl,
+      draggable: this._draggable,
+      opacityWhenCovered: "0",
       // No special alignment for dot marker - matches original
     }).setLngLat(this._position);
     // Note: Not adding to map yet - will be added when showing
+
+    // Drag events are only fired by the marker while it is draggable
+    this._positionMarker.on("dragstart", () => this._fireDrag("dragstart"));
+    this._positionMarker.on("drag", this._onMarkerDrag.bind(this));
+    this._positionMarker.on("dragend", this._onDragEnd.bind(this, "pointer"));
+    this._onDotKeyDownHandler = this._onDotKeyDown.bind(this);
+    this._onDotKeyUpHandler = this._onDotKeyUp.bind(this);
+    positionEl.addEventListener("keydown", this._onDotKeyDownHandler);
+    positionEl.addEventListener("keyup", this._onDotKeyUpHandler);
+    positionEl.addEventListener("blur", this._onDotKeyUpHandler);
+    this._updateDotAccessibility();
+    this._updateStaleClass();
+    this._renderPositionElement();
   }
 
   /**
-   * Show the position markers
+   * Remove the marker at the position, leaving a custom element as it was given
    * @private
    */
-  private _showMarkers(): void {
-    if (!this._map) return;
-
-    // Add accuracy circle first (so it appears behind the dot)
-    if (this._showAccuracyCircle) {
-      this._accuracyMarker?.addTo(this._map);
+  private _removePositionMarker(): void {
+    const element = this._positionMarker?.getElement();
+    if (!element) {
+      return;
     }
-    this._updateAccuracyCircle();
 
-    // Add position dot on top
-    this._positionMarker?.addTo(this._map);
+    if (this._onDotKeyDownHandler && this._onDotKeyUpHandler) {
+      element.removeEventListener("keydown", this._onDotKeyDownHandler);
+      element.removeEventListener("keyup", this._onDotKeyUpHandler);
+      element.removeEventListener("blur", this._onDotKeyUpHandler);
+      this._onDotKeyDownHandler = undefined;
+      this._onDotKeyUpHandler = undefined;
+    }
+    element.classList.remove(
+      "maplibregl-user-location-dot-draggable",
+      "maplibregl-user-location-show-heading",
+      "maplibregl-manual-geolocate-position-stale",
+    );
+    element.removeAttribute("tabindex");
+    element.removeAttribute("role");
+    element.removeAttribute("aria-label");
 
-    // Setup map event listeners for accuracy circle updates
-    this._setupMapEventListeners();
+    this._positionMarker!.remove();
+    this._positionMarker = undefined;
   }
 
   /**
-   * Setup map event listeners for updating accuracy circle
+   * Set the custom properties of the markers and the paint of the accuracy layers
+   * from the marker style
    * @private
    */
-  private _setupMapEventListeners(): void {
-    if (
-      !this._map ||
-      this._mapEventListenersSetup ||
-      !this._showAccuracyCircle
-    ) {
-      return;
+  private _applyMarkerStyle(): void {
+    const style = this._markerStyle;
+    const paint = resolveAccuracyPaint(style);
+
+    // The stylesheet falls back to the native look for properties that are not set
+    const dot = this._positionElement
+      ? undefined
+      : this._positionMarker?.getElement();
+    if (dot) {
+      setCustomProperty(dot, "dot-color", style.dotColor);
+      setCustomProperty(dot, "dot-border-color", style.dotBorderColor);
+      setCustomProperty(
+        dot,
+        "dot-border-width",
+        toPixels(style.dotBorderWidth),
+      );
+      setCustomProperty(dot, "dot-size", toPixels(style.dotSize));
     }
 
-    // Create and store the bound handler
-    this._updateCircleHandler = this._updateAccuracyCircle.bind(this);
-
-    // Update accuracy circle on map changes (matches original implementation)
-    this._map.on("zoom", this._updateCircleHandler);
-    this._map.on("move", this._updateCircleHandler);
-    this._map.on("rotate", this._updateCircleHandler);
-    this._map.on("pitch", this._updateCircleHandler);
+    const circle = this._accuracyMarker?.getElement();
+    if (circle) {
+      const hasFill =
+        style.accuracyFillColor !== undefined ||
+        style.accuracyFillOpacity !== undefined;
+      const hasStroke =
+        style.accuracyStrokeColor !== undefined ||
+        style.accuracyStrokeOpacity !== undefined ||
+        style.accuracyStrokeWidth !== undefined;
+      setCustomProperty(
+        circle,
+        "accuracy-fill",
+        hasFill ? withOpacity(paint.fillColor, paint.fillOpacity) : undefined,
+      );
+      setCustomProperty(
+        circle,
+        "accuracy-stroke-color",
+        hasStroke
+          ? withOpacity(paint.strokeColor, paint.strokeOpacity)
+          : undefined,
+      );
+      setCustomProperty(
+        circle,
+        "accuracy-stroke-width",
+        hasStroke ? toPixels(paint.strokeWidth) : undefined,
+      );
+    }
 
-    this._mapEventListenersSetup = true;
+    this._accuracyLayer?.setPaint(paint);
   }
 
   /**
-   * Remove map event listeners for accuracy circle updates
+   * Mark the element at the position as stale while the position is older than
+   * `maximumAge` or the control is in an error state
    * @private
    */
-  private _removeMapEventListeners(): void {
-    if (
-      !this._map ||
-      !this._mapEventListenersSetup ||
-      !this._updateCircleHandler
-    ) {
+  private _updateStaleClass(): void {
+    const element = this._positionMarker?.getElement();
+    if (!element) {
       return;
     }
 
-    this._map.off("zoom", this._updateCircleHandler);
-    this._map.off("move", this._updateCircleHandler);
-    this._map.off("rotate", this._updateCircleHandler);
-    this._map.off("pitch", this._updateCircleHandler);
+    // The native stale style greys the background, which would show behind custom elements
+    element.classList.toggle(
+      this._positionElement
+        ? "maplibregl-manual-geolocate-position-stale"
+        : "maplibregl-user-location-dot-stale",
+      this._stale ||
+        this._watchState === "ACTIVE_ERROR" ||
+        this._watchState === "BACKGROUND_ERROR",
+    );
+  }
 
-    this._updateCircleHandler = undefined;
-    this._mapEventListenersSetup = false;
+  /**
+   * Milliseconds since the current fix
+   * @private
+   */
+  private _getPositionAge(): number {
+    return Date.now() - (this._timestamp ?? this._positionTime);
   }
 
   /**
-   * Update the accuracy circle size based on current zoom and accuracy
+   * Fire `positionstale` or `positionfresh` when the position crosses `maximumAge`, and
+   * schedule the next check
    * @private
    */
-  private _updateAccuracyCircle(): void {
-    if (!this._map || !this._accuracyMarker || !this._showAccuracyCircle) {
+  private _updateStaleness(): void {
+    clearTimeout(this._staleTimer);
+    this._staleTimer = undefined;
+    if (!this._map) {
       return;
     }
 
-    // Use MapLibre's projection methods for accurate pixel-to-meter conversion
-    const screenPosition = this._map.project(this._position);
-    const positionWith100Px = this._map.unproject([
-      screenPosition.x + 100,
-      screenPosition.y,
-    ]);
-    const pixelsToMeters = this._position.distanceTo(positionWith100Px) / 100;
-    const circleDiameter = (2 * this._accuracy) / pixelsToMeters;
+    const age = this._getPositionAge();
+    const stale = age >= this._maximumAge;
+    if (!stale && Number.isFinite(this._maximumAge)) {
+      this._staleTimer = setTimeout(
+        () => this._runWithSource("timer", () => this._updateStaleness()),
+        Math.min(this._maximumAge - age, MAX_TIMEOUT),
+      );
+    }
 
-    const element = this._accuracyMarker.getElement();
-    element.style.width = `${circleDiameter.toFixed(2)}px`;
-    element.style.height = `${circleDiameter.toFixed(2)}px`;
+    if (stale === this._stale) {
+      return;
+    }
+    this._stale = stale;
+    this._updateStaleClass();
+    this._fire(
+      stale ? "positionstale" : "positionfresh",
+      this._createGeolocationPosition(),
+    );
   }
 
   /**
-   * Handle button click event
+   * Call the render callback with the element at the position
    * @private
    */
-  private _onClick(): void {
-    this.trigger();
+  private _renderPositionElement(): void {
+    const element = this._positionMarker?.getElement();
+    if (element && this._renderPosition) {
+      this._renderPosition(element, this._createGeolocationPosition());
+    }
   }
 
   /**
-   * Zoom the map to the manual position with accuracy radius
+   * Make the dot focusable while it is draggable
    * @private
    */
-  private _zoomToPosition(): void {
-    if (!this._map) return;
+  private _updateDotAccessibility(): void {
+    const element = this._positionMarker?.getElement();
+    if (!element) {
+      return;
+    }
 
-    // Create bounds from position and accuracy radius
-    const bounds = maplibregl.LngLatBounds.fromLngLat(
-      this._position,
-      this._accuracy,
+    element.classList.toggle(
+      "maplibregl-user-location-dot-draggable",
+      this._draggable,
     );
-
-    this._map.fitBounds(bounds, {
-      ...this._fitBoundsOptions,
-      bearing: this._fitBoundsOptions.bearing ?? this._map.getBearing(),
-    });
+    if (this._draggable) {
+      element.tabIndex = 0;
+      element.setAttribute("role", "button");
+      element.setAttribute("aria-label", this._labels.draggablePosition);
+    } else {
+      element.removeAttribute("tabindex");
+      element.removeAttribute("role");
+      element.removeAttribute("aria-label");
+    }
   }
 
   /**
-   * Create a GeolocationPosition object from the current position
-   * @returns A W3C-compliant GeolocationPosition object
+   * Follow the dot while it is dragged with the pointer
    * @private
    */
-  private _createGeolocationPosition(): GeolocationPosition {
-    const { lat, lng } = this._position;
-    const accuracy = this._accuracy;
-    const timestamp = Date.now();
-
-    const coords = {
-      latitude: lat,
-      longitude: lng,
-      accuracy,
-      altitude: null,
-      altitudeAccuracy: null,
-      heading: null,
-      speed: null,
-      toJSON: () => ({
-        latitude: lat,
-        longitude: lng,
-        accuracy,
-        altitude: null,
-        altitudeAccuracy: null,
-        heading: null,
-        speed: null,
-      }),
-    } satisfies GeolocationCoordinates;
-
-    const position = {
-      coords,
-      timestamp,
-      toJSON: () => ({
-        coords: coords.toJSON(),
-        timestamp,
-      }),
-    } satisfies GeolocationPosition;
-
-    return position;
+  private _onMarkerDrag(): void {
+    const { lng, lat } = this._positionMarker!.getLngLat();
+    this._moveToDraggedPosition(new maplibregl.LngLat(lng, lat), "pointer");
   }
 
   /**
-   * Check if the current position is outside the map's maxBounds
-   * Matches the original GeolocateControl behavior
-   * @returns `true` if position is outside bounds, `false` otherwise
+   * Nudge the dot with the arrow keys
    * @private
    */
-  private _isOutOfMapMaxBounds(): boolean {
-    if (!this._map) {
-      return false;
+  private _onDotKeyDown(event: KeyboardEvent): void {
+    const offset = NUDGE_OFFSETS[event.key];
+    if (!this._draggable || !this._map || !offset) {
+      return;
     }
+    event.preventDefault();
 
-    const bounds = this._map.getMaxBounds();
-    if (!bounds) {
-      return false;
+    if (!this._keyboardDragging) {
+      this._keyboardDragging = true;
+      this._fireDrag("dragstart", "keyboard");
     }
 
-    const { lat, lng } = this._position;
-    return (
-      lng < bounds.getWest() ||
-      lng > bounds.getEast() ||
-      lat < bounds.getSouth() ||
-      lat > bounds.getNorth()
-    );
+    const step = event.shiftKey ? NUDGE_PIXELS_LARGE : NUDGE_PIXELS;
+    const point = this._map.project(this._position);
+    const { lng, lat } = this._map.unproject([
+      point.x + offset[0] * step,
+      point.y + offset[1] * step,
+    ]);
+    this._moveToDraggedPosition(new maplibregl.LngLat(lng, lat), "keyboard");
   }
 
   /**
-   * Programmatically trigger the geolocate control
-   * Shows markers and centers the map on the manual position
+   * End a keyboard drag when the arrow key is released or the dot loses focus
+   * @private
    */
-  trigger(): void {
-    // Check if position is outside map's maxBounds
-    if (this._isOutOfMapMaxBounds()) {
-      this._fire("outofmaxbounds", this._createGeolocationPosition());
+  private _onDotKeyUp(event: Event): void {
+    if (!this._keyboardDragging) {
+      return;
+    }
+    if (event instanceof KeyboardEvent && !NUDGE_OFFSETS[event.key]) {
       return;
     }
 
-    // Show markers (or update their position if already shown)
-    this._showMarkers();
-
-    // Zoom to the manual location with accuracy
-    this._zoomToPosition();
-
-    // Fire geolocate event with native GeolocationPosition format
-    this._fire("geolocate", this._createGeolocationPosition());
+    this._keyboardDragging = false;
+    this._onDragEnd("keyboard");
   }
 
   /**
-   * Update the manual position
-   * @param coordinates - The new position coordinates
+   * Apply a position reached by dragging
+   * @private
    */
-  setPosition(coordinates: LngLatLike): void {
-    this._position = maplibregl.LngLat.convert(coordinates);
+  private _moveToDraggedPosition(
+    position: maplibregl.LngLat,
+    input: ManualGeolocateDragEvent["input"],
+  ): void {
+    this._runWithSource("drag", () => {
+      this._position = position;
+      this._updateMarkerPositions();
+      this._notifyPositionChange();
+      this._fireDrag("drag", input);
+    });
+  }
 
-    // Update marker positions if they exist
-    this._positionMarker?.setLngLat(this._position);
-    this._accuracyMarker?.setLngLat(this._position);
-    this._updateAccuracyCircle();
+  /**
+   * Fire `dragend` and report the dropped position if configured
+   * @private
+   */
+  private _onDragEnd(input: ManualGeolocateDragEvent["input"]): void {
+    this._runWithSource("drag", () => {
+      this._fireDrag("dragend", input);
+
+      if (!this._geolocateOnDragEnd) {
+        return;
+      }
+
+      if (this._trackUserLocation) {
+        this._onTrackedPositionUpdate();
+      } else if (this._isOutOfMapMaxBounds()) {
+        this._fire("outofmaxbounds", this._createGeolocationPosition());
+      } else {
+        this._fire("geolocate", this._createGeolocationPosition());
+      }
+    });
   }
 
   /**
-   * Update the accuracy radius
-   * @param accuracy - The new accuracy radius in meters
+   * Fire a drag event for the current position
+   * @private
    */
-  setAccuracy(accuracy: number): void {
-    this._accuracy = accuracy;
-    this._updateAccuracyCircle();
+  private _fireDrag(
+    type: "dragstart" | "drag" | "dragend",
+    input: ManualGeolocateDragEvent["input"] = "pointer",
+  ): void {
+    this._runWithSource("drag", () => {
+      this._fire(type, { lngLat: this._position, input });
+    });
   }
 
   /**
-   * Toggle the accuracy circle visibility
-   * @param show - Whether to show the accuracy circle
+   * Show the position markers
+   * @param notify - Whether to fire `markershow` if they were hidden
+   * @private
    */
-  setShowAccuracyCircle(show: boolean): void {
-    this._showAccuracyCircle = show;
+  private _showMarkers(notify = true): void {
+    if (!this._map) return;
+    const wasVisible = this._markersVisible;
 
-    if (!this._map || !this._accuracyMarker) {
-      return;
+    // Add accuracy circle first (so it appears behind the dot)
+    if (this._showAccuracyCircle && !this._accuracyLayer) {
+      this._accuracyMarker?.addTo(this._map);
     }
+    this._markersVisible = true;
+    this._updateAccuracyCircle();
+    this._updateTrail();
 
-    if (show) {
-      // Show the accuracy circle
-      this._accuracyMarker.addTo(this._map);
-      this._setupMapEventListeners();
-      this._updateAccuracyCircle();
-    } else {
-      // Hide the accuracy circle
-      this._accuracyMarker.remove();
-      this._removeMapEventListeners();
+    // Add position dot on top of the heading cone
+    this._updateHeadingMarker();
+    this._positionMarker?.addTo(this._map);
+
+    // Setup map event listeners for accuracy circle updates
+    this._setupMapEventListeners();
+
+    if (notify && !wasVisible) {
+      this._fire("markershow", this._createGeolocationPosition());
     }
   }
 
   /**
-   * Update the fit bounds options used when zooming to position
-   * @param options - The FitBoundsOptions to use for map.fitBounds() calls
+   * Hide the position markers
+   * @param notify - Whether to fire `markerhide` if they were shown
+   * @private
    */
-  setFitBoundsOptions(options: FitBoundsOptions): void {
-    this._fitBoundsOptions = options;
+  private _hideMarkers(notify = true): void {
+    const wasVisible = this._markersVisible;
+    this._positionMarker?.remove();
+    this._accuracyMarker?.remove();
+    this._accuracyLayer?.clear();
+    this._trailLayer?.clear();
+    this._removeMapEventListeners();
+    this._markersVisible = false;
+    this._updateHeadingMarker();
+
+    if (notify && wasVisible) {
+      this._fire("markerhide", this._createGeolocationPosition());
+    }
   }
 
   /**
-   * Register an event handler
-   * @param type - The event type ('geolocate' or 'outofmaxbounds')
-   * @param listener - The event handler function
+   * Move all markers to the current position
+   * @private
    */
-  on(type: "geolocate", listener: (e: GeolocationPosition) => void): this;
-  on(type: "outofmaxbounds", listener: (e: GeolocationPosition) => void): this;
-  on(
-    type: "geolocate" | "outofmaxbounds",
-    listener: (e: GeolocationPosition) => void,
-  ): this {
-    if (!this._eventHandlers[type]) {
-      this._eventHandlers[type] = [];
-    }
-    this._eventHandlers[type]!.push(listener as any);
-    return this;
+  private _updateMarkerPositions(): void {
+    this._positionMarker?.setLngLat(this._position);
+    this._accuracyMarker?.setLngLat(this._position);
+    this._headingMarker?.setLngLat(this._position);
+    this._updateAccuracyCircle();
   }
 
   /**
-   * Remove an event handler
-   * @param type - The event type
-   * @param listener - The event handler function to remove
+   * Show, hide or rotate the heading cone to match the current heading
+   * @private
    */
-  off(type: "geolocate", listener: (e: GeolocationPosition) => void): this;
-  off(type: "outofmaxbounds", listener: (e: GeolocationPosition) => void): this;
-  off(
-    type: "geolocate" | "outofmaxbounds",
-    listener: (e: GeolocationPosition) => void,
-  ): this {
-    if (!this._eventHandlers[type]) {
-      return this;
+  private _updateHeadingMarker(): void {
+    if (!this._map || !this._headingMarker) {
+      return;
     }
 
-    const handlers = this._eventHandlers[type]!;
-    const index = handlers.indexOf(listener as any);
-    if (index !== -1) {
-      handlers.splice(index, 1);
+    const show =
+      this._markersVisible &&
+      this._showUserHeading &&
+      this._heading !== null &&
+      Number.isFinite(this._heading);
+
+    this._positionMarker
+      ?.getElement()
+      .classList.toggle("maplibregl-user-location-show-heading", show);
+
+    if (!show) {
+      if (this._headingMarkerVisible) {
+        this._headingMarker.remove();
+        this._headingMarkerVisible = false;
+      }
+      return;
     }
 
-    return this;
+    this._headingMarker.setRotation(this._heading!);
+    if (!this._headingMarkerVisible) {
+      this._headingMarker.addTo(this._map);
+      this._headingMarkerVisible = true;
+
+      // Keep the dot above the cone when the cone is added after the dot
+      if (this._positionMarker) {
+        const dot = this._positionMarker.getElement();
+        dot.parentNode?.appendChild(dot);
+      }
+    }
   }
 
   /**
-   * Fire an event
+   * Setup map event listeners for updating accuracy circle
    * @private
    */
-  private _fire(type: "geolocate", data: GeolocationPosition): void;
-  private _fire(type: "outofmaxbounds", data: GeolocationPosition): void;
-  private _fire(
-    type: "geolocate" | "outofmaxbounds",
-    data: GeolocationPosition,
-  ): void {
-    if (!this._eventHandlers[type]) {
-      return;
+  private _setupMapEventListeners(): void {
+    if (
+      !this._map ||
+      this._mapEventListenersSetup ||
+      !this._showAccuracyCircle ||
+      !this._accuracyMarker ||
+      this._accuracyLayer
+    ) {
+      return;
+    }
+
+    // Create and store the bound handler
+    this._updateCircleHandler = this._updateAccuracyCircle.bind(this);
+
+    // Update accuracy circle on map changes (matches original implementation)
+    this._map.on("zoom", this._updateCircleHandler);
+    this._map.on("move", this._updateCircleHandler);
+    this._map.on("rotate", this._updateCircleHandler);
+    this._map.on("pitch", this._updateCircleHandler);
+
+    this._mapEventListenersSetup = true;
+  }
+
+  /**
+   * Remove map event listeners for accuracy circle updates
+   * @private
+   */
+  private _removeMapEventListeners(): void {
+    if (
+      !this._map ||
+      !this._mapEventListenersSetup ||
+      !this._updateCircleHandler
+    ) {
+      return;
+    }
+
+    this._map.off("zoom", this._updateCircleHandler);
+    this._map.off("move", this._updateCircleHandler);
+    this._map.off("rotate", this._updateCircleHandler);
+    this._map.off("pitch", this._updateCircleHandler);
+
+    this._updateCircleHandler = undefined;
+    this._mapEventListenersSetup = false;
+  }
+
+  /**
+   * Draw the accuracy circle with style layers in "layer" mode and on the globe,
+   * and with the DOM marker otherwise
+   * @private
+   */
+  private _updateAccuracyRenderer(): void {
+    if (!this._map) {
+      return;
+    }
+
+    const useLayer = this._accuracyCircleMode === "layer" || this._globe;
+    if (useLayer && !this._accuracyLayer) {
+      this._accuracyMarker?.remove();
+      this._removeMapEventListeners();
+      this._accuracyLayer = new AccuracyLayer(
+        this._map,
+        this._accuracyCircleLayerId,
+        this._accuracyCircleBeforeId,
+        resolveAccuracyPaint(this._markerStyle),
+      );
+    } else if (!useLayer && this._accuracyLayer) {
+      this._accuracyLayer.remove();
+      this._accuracyLayer = undefined;
+      if (this._markersVisible) {
+        // Show again so the circle is stacked below the dot
+        this._hideMarkers(false);
+        this._showMarkers(false);
+      }
+    }
+
+    this._updateAccuracyCircle();
+  }
+
+  /**
+   * Update the accuracy circle (or uncertainty ellipse) size based on current zoom and accuracy
+   * @private
+   */
+  private _updateAccuracyCircle(): void {
+    const ellipse = this._uncertaintyEllipse;
+
+    if (this._accuracyLayer) {
+      // Geodesic polygon in meters, independent of the camera
+      if (!this._markersVisible || !this._showAccuracyCircle) {
+        this._accuracyLayer.clear();
+      } else if (ellipse) {
+        this._accuracyLayer.setEllipse(this._position, ellipse);
+      } else {
+        this._accuracyLayer.setCircle(this._position, this._accuracy);
+      }
+      return;
+    }
+
+    if (!this._map || !this._accuracyMarker || !this._showAccuracyCircle) {
+      return;
+    }
+
+    // Use MapLibre's projection methods for accurate pixel-to-meter conversion
+    const screenPosition = this._map.project(this._position);
+    const positionWith100Px = this._map.unproject([
+      screenPosition.x + 100,
+      screenPosition.y,
+    ]);
+    const pixelsToMeters = this._position.distanceTo(positionWith100Px) / 100;
+    const element = this._accuracyMarker.getElement();
+
+    if (ellipse) {
+      // The element's width runs along the semi-major axis, which rotates from east to its orientation
+      const width = (2 * ellipse.semiMajor) / pixelsToMeters;
+      const height = (2 * ellipse.semiMinor) / pixelsToMeters;
+      element.style.width = `${width.toFixed(2)}px`;
+      element.style.height = `${height.toFixed(2)}px`;
+      this._accuracyMarker.setRotation(ellipse.orientation - 90);
+      return;
+    }
+
+    const circleDiameter = (2 * this._accuracy) / pixelsToMeters;
+    element.style.width = `${circleDiameter.toFixed(2)}px`;
+    element.style.height = `${circleDiameter.toFixed(2)}px`;
+    this._accuracyMarker.setRotation(0);
+  }
+
+  /**
+   * Handle button click event
+   * @private
+   */
+  private _onClick(event: MouseEvent): void {
+    if (this._suppressNextClick) {
+      // The click that ends a long press
+      this._suppressNextClick = false;
+      return;
+    }
+
+    if (this.isPickingPosition()) {
+      this.cancelPositionPick();
+      return;
+    }
+
+    if (this._enablePositionPick && event.shiftKey) {
+      this.startPositionPick();
+      return;
+    }
+
+    this._runWithSource("button", () => this.trigger());
+  }
+
+  /**
+   * Start pick mode when the button is held down
+   * @private
+   */
+  private _onButtonPointerDown(): void {
+    this._clearLongPress();
+    this._suppressNextClick = false;
+    this._longPressTimer = setTimeout(() => {
+      this._longPressTimer = undefined;
+      this._suppressNextClick = true;
+      this.startPositionPick();
+    }, LONG_PRESS_DURATION);
+  }
+
+  /**
+   * End the press, dropping the click suppression if no click follows it
+   * @private
+   */
+  private _onButtonPointerUp(): void {
+    this._clearLongPress();
+    if (this._suppressNextClick) {
+      // A click ending the gesture is dispatched right after pointerup, while a
+      // press released outside the button or a touch long press has none
+      setTimeout(() => {
+        this._suppressNextClick = false;
+      }, 0);
+    }
+  }
+
+  /**
+   * Cancel a pending long press
+   * @private
+   */
+  private _clearLongPress(): void {
+    if (this._longPressTimer !== undefined) {
+      clearTimeout(this._longPressTimer);
+      this._longPressTimer = undefined;
+    }
+  }
+
+  /**
+   * Set the position from the clicked point and leave pick mode
+   * @private
+   */
+  private _onPickClick(event: MapMouseEvent): void {
+    const { lng, lat } = event.lngLat;
+    const lngLat = new maplibregl.LngLat(lng, lat);
+    this.cancelPositionPick();
+
+    this._runWithSource("pick", () => {
+      this.setPosition(lngLat);
+      if (!this._trackUserLocation && !this._markersVisible) {
+        this._showMarkers();
+      }
+      this._fire("positionpick", { lngLat });
+    });
+  }
+
+  /**
+   * Leave pick mode on Escape
+   * @private
+   */
+  private _onPickKeyDown(event: KeyboardEvent): void {
+    if (event.key === "Escape") {
+      this.cancelPositionPick();
+    }
+  }
+
+  /**
+   * Handle map movestart event in tracking mode
+   * Matches the original GeolocateControl: a camera change that was not made by
+   * this control moves the watch state from ACTIVE_LOCK to BACKGROUND.
+   * @private
+   */
+  private _onMoveStart(event: MoveStartEvent): void {
+    if (!this._map || this._watchState !== "ACTIVE_LOCK") {
+      return;
+    }
+
+    const fromResize = event[0] instanceof ResizeObserverEntry;
+    if (event.geolocateSource || fromResize || this._map.isZooming()) {
+      return;
+    }
+
+    this._runWithSource("map", () => {
+      this._setWatchState("BACKGROUND");
+      this._fire("trackuserlocationend");
+      this._fire("userlocationlostfocus");
+    });
+  }
+
+  /**
+   * Update the watch state and the button classes that reflect it
+   * @private
+   */
+  private _setWatchState(state: ManualGeolocateWatchState): void {
+    this._watchState = state;
+
+    if (!this._button) return;
+
+    this._button.classList.toggle(
+      "maplibregl-ctrl-geolocate-active",
+      state === "ACTIVE_LOCK" || state === "WAITING_ACTIVE",
+    );
+    this._button.classList.toggle(
+      "maplibregl-ctrl-geolocate-active-error",
+      state === "ACTIVE_ERROR",
+    );
+    this._button.classList.toggle(
+      "maplibregl-ctrl-geolocate-background",
+      state === "BACKGROUND",
+    );
+    this._button.classList.toggle(
+      "maplibregl-ctrl-geolocate-background-error",
+      state === "BACKGROUND_ERROR",
+    );
+    // Like the native control, error states keep waiting for a position
+    this._button.classList.toggle(
+      "maplibregl-ctrl-geolocate-waiting",
+      state === "WAITING_ACTIVE" ||
+        state === "ACTIVE_ERROR" ||
+        state === "BACKGROUND_ERROR",
+    );
+    this._updateStaleClass();
+    this._button.setAttribute("aria-pressed", String(state !== "OFF"));
+  }
+
+  /**
+   * Zoom the map to the manual position with accuracy radius, or the extent of the
+   * uncertainty ellipse
+   * @private
+   */
+  private _zoomToPosition(): void {
+    if (!this._map) return;
+
+    if (this._presetZoom !== undefined) {
+      const { bearing, padding, offset, linear } = this._fitBoundsOptions;
+      const options = {
+        center: this._position,
+        zoom: this._presetZoom,
+        bearing: bearing ?? this._map.getBearing(),
+        padding,
+        offset,
+      };
+      const eventData = { geolocateSource: true };
+      if (linear) {
+        this._map.easeTo(options, eventData);
+      } else {
+        this._map.flyTo(options, eventData);
+      }
+      return;
+    }
+
+    const bounds = this._uncertaintyEllipse
+      ? ellipseBounds(this._position, this._uncertaintyEllipse)
+      : maplibregl.LngLatBounds.fromLngLat(this._position, this._accuracy);
+
+    this._map.fitBounds(
+      bounds,
+      {
+        ...this._fitBoundsOptions,
+        bearing: this._fitBoundsOptions.bearing ?? this._map.getBearing(),
+      },
+      // Tag this camera change so it won't move tracking mode to background state
+      { geolocateSource: true },
+    );
+  }
+
+  /**
+   * Create a GeolocationPosition object from the current position
+   * @returns A W3C-compliant GeolocationPosition object
+   * @private
+   */
+  private _createGeolocationPosition(): ManualGeolocationPosition {
+    const position = createGeolocationPosition(
+      {
+        latitude: this._position.lat,
+        longitude: this._position.lng,
+        accuracy: this._accuracy,
+        altitude: this._altitude,
+        altitudeAccuracy: this._altitudeAccuracy,
+        heading: this._heading,
+        speed: this._speed,
+      },
+      this._timestamp ?? Date.now(),
+      this._uncertaintyEllipse ?? undefined,
+    );
+    position.age = this._getPositionAge();
+    return position;
+  }
+
+  /**
+   * Check if the current position is outside the map's maxBounds
+   * Matches the original GeolocateControl behavior
+   * @returns `true` if position is outside bounds, `false` otherwise
+   * @private
+   */
+  private _isOutOfMapMaxBounds(): boolean {
+    if (!this._map) {
+      return false;
+    }
+
+    const bounds = this._map.getMaxBounds();
+    if (!bounds) {
+      return false;
+    }
+
+    const { lat, lng } = this._position;
+    return (
+      lng < bounds.getWest() ||
+      lng > bounds.getEast() ||
+      lat < bounds.getSouth() ||
+      lat > bounds.getNorth()
+    );
+  }
+
+  /**
+   * Programmatically trigger the geolocate control
+   * Shows markers and centers the map on the manual position.
+   * When `trackUserLocation` is enabled this toggles tracking mode instead,
+   * following the same state transitions as the original GeolocateControl.
+   */
+  trigger(): void {
+    if (this._trackUserLocation) {
+      this._toggleTracking();
+      return;
+    }
+
+    // Still waiting for a delayed simulated error
+    if (this._errorTimer !== undefined) {
+      return;
+    }
+
+    const error = this.getPositionError();
+    if (error) {
+      this._failWith(error);
+      return;
+    }
+
+    // Check if position is outside map's maxBounds
+    if (this._isOutOfMapMaxBounds()) {
+      this._announce(this._labels.outOfMaxBounds);
+      this._fire("outofmaxbounds", this._createGeolocationPosition());
+      return;
+    }
+
+    // Show markers (or update their position if already shown)
+    this._showMarkers();
+
+    // Zoom to the manual location with accuracy
+    this._zoomToPosition();
+
+    // Fire geolocate event with native GeolocationPosition format
+    this._announcePosition();
+    this._fire("geolocate", this._createGeolocationPosition());
+  }
+
+  /**
+   * Announce the position and accuracy to screen readers
+   * @private
+   */
+  private _announcePosition(): void {
+    this._announce(
+      formatLabel(this._labels.positionFound, {
+        lat: this._position.lat.toFixed(5),
+        lng: this._position.lng.toFixed(5),
+        accuracy: Math.round(this._accuracy),
+      }),
+    );
+  }
+
+  /**
+   * Replace the text of the live region
+   * @private
+   */
+  private _announce(text: string): void {
+    if (!this._announcer) {
+      return;
+    }
+    // Screen readers skip updates that don't change the text, so vary it invisibly
+    this._announcer.textContent =
+      this._announcer.textContent === text ? `${text}\u00a0` : text;
+  }
+
+  /**
+   * Advance the tracking mode state machine on trigger
+   * @private
+   */
+  private _toggleTracking(): void {
+    switch (this._watchState) {
+      case "OFF": {
+        const error = this.getPositionError();
+        if (error) {
+          this._setWatchState("WAITING_ACTIVE");
+          this._fire("trackuserlocationstart");
+          this._failWith(error);
+          return;
+        }
+
+        if (this._isOutOfMapMaxBounds()) {
+          this._announce(this._labels.outOfMaxBounds);
+          this._fire("outofmaxbounds", this._createGeolocationPosition());
+          return;
+        }
+
+        this._setWatchState("ACTIVE_LOCK");
+        this._fire("trackuserlocationstart");
+        this._showLockedPosition();
+        break;
+      }
+      case "WAITING_ACTIVE":
+      case "ACTIVE_LOCK":
+      case "ACTIVE_ERROR":
+      case "BACKGROUND_ERROR":
+        this._clearErrorTimer();
+        this._setWatchState("OFF");
+        this._hideMarkers();
+        this._fire("trackuserlocationend");
+        break;
+      case "BACKGROUND":
+        this._setWatchState("ACTIVE_LOCK");
+        this._zoomToPosition();
+        this._announcePosition();
+        this._fire("trackuserlocationstart");
+        this._fire("userlocationfocus");
+        break;
+    }
+  }
+
+  /**
+   * Show the position and move the camera to it on entering ACTIVE_LOCK
+   * @private
+   */
+  private _showLockedPosition(): void {
+    this._showMarkers();
+    this._zoomToPosition();
+    this._announcePosition();
+    this._fire("geolocate", this._createGeolocationPosition());
+  }
+
+  /**
+   * Update the manual position
+   * In tracking mode this behaves like a watchPosition update: a `geolocate` event
+   * is fired, and the camera follows the new position while in ACTIVE_LOCK state.
+   * @param coordinates - The new position coordinates
+   */
+  setPosition(coordinates: LngLatLike): void {
+    this._position = maplibregl.LngLat.convert(coordinates);
+
+    // Update marker positions if they exist
+    this._updateMarkerPositions();
+    this._notifyPositionChange();
+
+    if (this._trackUserLocation) {
+      this._onTrackedPositionUpdate();
+    }
+  }
+
+  /**
+   * Update the manual position from a coordinate string, such as one pasted by a user.
+   * See `parseCoordinates()` for the accepted formats.
+   *
+   * The uncertainty and altitude of a `geo:` URI are applied too. Like `setPosition()`,
+   * this reports a `geolocate` event only while tracking mode is active.
+   *
+   * @param text - The coordinate string
+   * @param options - Parser options
+   * @returns The parsed coordinates
+   * @throws {CoordinateParseError} If the string is not recognized or out of range,
+   * leaving the position unchanged
+   *
+   * @example
+   * ```typescript
+   * control.setPositionFromString(`35°40'52"N 139°46'1"E`);
+   * ```
+   */
+  setPositionFromString(
+    text: string,
+    options?: CoordinateParserOptions,
+  ): ParsedCoordinates {
+    const parsed = parseCoordinates(text, options);
+    this.setCoords({
+      longitude: parsed.lngLat.lng,
+      latitude: parsed.lngLat.lat,
+      accuracy: parsed.accuracy,
+      altitude: parsed.altitude,
+    });
+    return parsed;
+  }
+
+  /**
+   * Get the presets listed in the menu
+   * @returns Copies of the presets in menu order
+   */
+  getPresets(): PositionPreset[] {
+    return this._presets.map(clonePreset);
+  }
+
+  /**
+   * Add a preset at the end of the menu. With `savedPlaces`, it is kept across page loads.
+   * @param preset - The preset to add. Its id must not be in use.
+   */
+  addPreset(preset: PositionPreset): void {
+    if (this._presets.some(({ id }) => id === preset.id)) {
+      throw new Error(
+        `ManualGeolocateControl: preset "${preset.id}" already exists`,
+      );
+    }
+    this._presets.push(clonePreset(preset));
+    if (this._savedPlaces) {
+      this._savedPresetIds.add(preset.id);
+      this._savePresets();
+    }
+    this._updatePresetMenu();
+  }
+
+  /**
+   * Remove a preset from the menu. Unknown ids are ignored.
+   *
+   * Presets from the `presets` option come back on the next page load, while removed
+   * saved places are forgotten.
+   *
+   * @param id - Id of the preset
+   */
+  removePreset(id: string): void {
+    const index = this._presets.findIndex((preset) => preset.id === id);
+    if (index === -1) {
+      return;
+    }
+    this._presets.splice(index, 1);
+    if (this._savedPresetIds.delete(id)) {
+      this._savePresets();
+    }
+    this._updatePresetMenu();
+  }
+
+  /**
+   * Move to a preset and trigger the control, as when it is picked from the menu.
+   * Fires a `presetselect` event.
+   *
+   * In tracking mode the preset is a position update, and tracking starts when it is off.
+   *
+   * @param id - Id of the preset
+   */
+  selectPreset(id: string): void {
+    const preset = this._presets.find((item) => item.id === id);
+    if (!preset) {
+      throw new Error(`ManualGeolocateControl: no preset with id "${id}"`);
+    }
+
+    const { lng, lat } = maplibregl.LngLat.convert(preset.position);
+    this._presetZoom = preset.zoom;
+    try {
+      this._runWithSource("preset", () => {
+        this.setCoords({
+          longitude: lng,
+          latitude: lat,
+          accuracy: preset.accuracy,
+        });
+        this._fire("presetselect", { preset: clonePreset(preset) });
+        if (
+          this._map &&
+          (!this._trackUserLocation || this._watchState === "OFF")
+        ) {
+          this.trigger();
+        }
+      });
+    } finally {
+      this._presetZoom = undefined;
+    }
+  }
+
+  /**
+   * Save the presets added at runtime
+   * @private
+   */
+  private _savePresets(): void {
+    this._savedPlaces?.save(
+      this._presets
+        .filter(({ id }) => this._savedPresetIds.has(id))
+        .map((preset) => ({
+          ...preset,
+          position: maplibregl.LngLat.convert(preset.position).toArray(),
+        })),
+    );
+  }
+
+  /**
+   * List the presets in the menu
+   * @private
+   */
+  private _updatePresetMenu(): void {
+    this._presetMenu?.update(this._presets, this._savedPresetIds);
+  }
+
+  /**
+   * Return to the position, accuracy and accuracy circle visibility given to the
+   * constructor, and forget the state saved by the `persistence` option
+   *
+   * Like `setPosition()`, this reports a `geolocate` event only while tracking mode is active.
+   */
+  resetToDefault(): void {
+    const { position, accuracy, uncertaintyEllipse, showAccuracyCircle } =
+      this._defaults;
+    this._position = position;
+    this._accuracy = accuracy;
+    this._uncertaintyEllipse = uncertaintyEllipse;
+    if (this._showAccuracyCircle !== showAccuracyCircle) {
+      this.setShowAccuracyCircle(showAccuracyCircle);
+    }
+
+    this._updateMarkerPositions();
+    this._notifyPositionChange();
+    this._persistence?.clear();
+
+    if (this._trackUserLocation) {
+      this._onTrackedPositionUpdate();
+    }
+  }
+
+  /**
+   * Apply a complete position fix, as if it had been reported by the device
+   *
+   * Unlike `setPosition()`, this always reports the update: markers are shown and a
+   * `geolocate` event carrying the fix's altitude, heading and speed is fired. The camera only
+   * moves when tracking mode is locked (`ACTIVE_LOCK`). In tracking mode with the
+   * control switched off, the fix is stored but nothing is shown or fired. The events
+   * report the fix's `source`.
+   *
+   * @param fix - The position fix to apply
+   */
+  updatePosition(fix: PositionFix): void {
+    this._runWithSource(fix.source ?? this._source, () => this._applyFix(fix));
+  }
+
+  /**
+   * @private
+   */
+  private _applyFix(fix: PositionFix): void {
+    this._position = maplibregl.LngLat.convert(fix.position);
+    if (fix.uncertaintyEllipse) {
+      this._uncertaintyEllipse = fix.uncertaintyEllipse;
+      this._accuracy = equivalentRadius(fix.uncertaintyEllipse);
+    } else if (fix.accuracy !== undefined) {
+      this._uncertaintyEllipse = null;
+      this._accuracy = fix.accuracy;
+    }
+    this._altitude = fix.altitude ?? null;
+    this._altitudeAccuracy = fix.altitudeAccuracy ?? null;
+    this._heading = fix.heading ?? null;
+    this._speed = fix.speed ?? null;
+    this._timestamp = fix.timestamp;
+
+    this._updateMarkerPositions();
+    this._updateHeadingMarker();
+    this._notifyPositionChange();
+
+    if (this._trackUserLocation) {
+      this._onTrackedPositionUpdate();
+      return;
+    }
+
+    if (this._isOutOfMapMaxBounds()) {
+      this._fire("outofmaxbounds", this._createGeolocationPosition());
+      return;
+    }
+
+    if (!this._markersVisible) {
+      this._showMarkers();
+    }
+    this._fire("geolocate", this._createGeolocationPosition());
+  }
+
+  /**
+   * Report a position update in tracking mode, like a watchPosition callback
+   * @private
+   */
+  private _onTrackedPositionUpdate(): void {
+    if (this._watchState === "OFF" || this._watchState === "WAITING_ACTIVE") {
+      return;
+    }
+
+    if (this._watchState.endsWith("_ERROR")) {
+      // Updates can't recover from an error that is still being simulated
+      if (this.getPositionError()) {
+        return;
+      }
+      this._setWatchState(
+        this._watchState === "ACTIVE_ERROR" ? "ACTIVE_LOCK" : "BACKGROUND",
+      );
+      // The dot is still hidden when the watch failed before its first position
+      this._showMarkers();
+    }
+
+    if (this._isOutOfMapMaxBounds()) {
+      this._fire("outofmaxbounds", this._createGeolocationPosition());
+      return;
+    }
+
+    if (this._watchState === "ACTIVE_LOCK") {
+      this._zoomToPosition();
+    }
+    this._fire("geolocate", this._createGeolocationPosition());
+  }
+
+  /**
+   * Get the current position as a W3C GeolocationPosition, the same object `geolocate`
+   * events carry
+   * @returns The current position
+   */
+  getGeolocationPosition(): ManualGeolocationPosition {
+    return this._createGeolocationPosition();
+  }
+
+  /**
+   * Register a listener called whenever the position or accuracy is changed through
+   * `setPosition()`, `setAccuracy()`, `setCoords()` or `updatePosition()`.
+   * Used by `ManualGeolocation` to drive `watchPosition()` callbacks.
+   * @param listener - Called after each change
+   * @returns A function that unregisters the listener
+   */
+  onPositionChange(listener: () => void): () => void {
+    this._positionChangeListeners.push(listener);
+    return () => {
+      const index = this._positionChangeListeners.indexOf(listener);
+      if (index !== -1) {
+        this._positionChangeListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Record the position in the history, the URL and the storage, and notify position
+   * change listeners
+   * @private
+   */
+  private _notifyPositionChange(): void {
+    this._positionTime = Date.now();
+    this._updateStaleness();
+    // Noisy PositionJitter samples are only shown, so the trail, the URL and the saved
+    // state keep the true position
+    if (this._source !== "jitter") {
+      this._recordHistory();
+      this._writeUrl();
+      this._saveState();
+    }
+    this._updatePanel();
+    this._renderPositionElement();
+    for (const listener of [...this._positionChangeListeners]) {
+      listener();
+    }
+
+    const positionChanged =
+      this._position.lng !== this._reportedPosition.lng ||
+      this._position.lat !== this._reportedPosition.lat;
+    const accuracyChanged =
+      this._accuracy !== this._reportedAccuracy ||
+      this._uncertaintyEllipse !== this._reportedEllipse;
+    this._reportedPosition = this._position;
+    this._reportedAccuracy = this._accuracy;
+    this._reportedEllipse = this._uncertaintyEllipse;
+    if (positionChanged) {
+      this._fire("positionchange", this._createGeolocationPosition());
+    }
+    if (accuracyChanged) {
+      this._fire("accuracychange", this._createGeolocationPosition());
+    }
+  }
+
+  /**
+   * Get the positions kept by the trail
+   * @returns Copies of the history entries from oldest to newest, or an empty array
+   * when the `trail` option is disabled
+   */
+  getHistory(): PositionHistoryEntry[] {
+    return this._history.map((entry) => ({
+      ...entry,
+      lngLat: new maplibregl.LngLat(entry.lngLat.lng, entry.lngLat.lat),
+    }));
+  }
+
+  /**
+   * Forget all past positions and erase the trail. The next position change starts
+   * a new one.
+   */
+  clearHistory(): void {
+    this._history = [];
+    clearTimeout(this._trailTimer);
+    this._trailTimer = undefined;
+    this._updateTrail();
+  }
+
+  /**
+   * Append the current position to the history
+   * @private
+   */
+  private _recordHistory(): void {
+    if (!this._trailOptions) return;
+
+    // Accuracy and other changes that don't move the position aren't recorded
+    const last = this._history[this._history.length - 1];
+    if (
+      last?.lngLat.lng === this._position.lng &&
+      last.lngLat.lat === this._position.lat
+    ) {
+      return;
+    }
+
+    this._history.push({
+      lngLat: new maplibregl.LngLat(this._position.lng, this._position.lat),
+      accuracy: this._accuracy,
+      timestamp: this._timestamp ?? Date.now(),
+    });
+    this._historyRecordedAt = Date.now();
+    this._pruneHistory();
+  }
+
+  /**
+   * Drop history entries beyond the trail's `maxPoints` and `maxAge`, redraw the trail,
+   * and while on the map, schedule dropping the oldest entry when it expires
+   * @private
+   */
+  private _pruneHistory(): void {
+    clearTimeout(this._trailTimer);
+    this._trailTimer = undefined;
+    if (!this._trailOptions) return;
+
+    const { maxPoints = 100, maxAge } = this._trailOptions;
+    let start = Math.max(0, this._history.length - maxPoints);
+    const newest = this._history[this._history.length - 1];
+    if (maxAge !== undefined && newest) {
+      // Timestamps may be replayed, so entries age from the newest one's timestamp
+      // by the real time that has passed since it was recorded
+      const now = newest.timestamp + Date.now() - this._historyRecordedAt;
+      while (
+        start < this._history.length - 1 &&
+        now - this._history[start].timestamp > maxAge
+      ) {
+        start++;
+      }
+      this._history.splice(0, start);
+
+      if (this._map && this._history.length > 1) {
+        const expiresIn = this._history[0].timestamp + maxAge - now + 1;
+        this._trailTimer = setTimeout(
+          () => this._pruneHistory(),
+          Math.min(Math.max(expiresIn, 0), MAX_TIMEOUT),
+        );
+      }
+    } else {
+      this._history.splice(0, start);
+    }
+
+    this._updateTrail();
+  }
+
+  /**
+   * Write the position, accuracy and heading to the URL when `urlSync` is enabled
+   * @private
+   */
+  private _writeUrl(): void {
+    this._urlSync?.write({
+      lng: this._position.lng,
+      lat: this._position.lat,
+      accuracy: this._accuracy,
+      heading: this._heading,
+    });
+  }
+
+  /**
+   * Save the position, accuracy and accuracy circle visibility when `persistence` is enabled
+   * @private
+   */
+  private _saveState(): void {
+    this._persistence?.save({
+      position: [this._position.lng, this._position.lat],
+      accuracy: this._accuracy,
+      showAccuracyCircle: this._showAccuracyCircle,
+    });
+  }
+
+  /**
+   * Show the current state in the coordinate entry panel
+   * @private
+   */
+  private _updatePanel(): void {
+    this._panel?.update({
+      position: this._position,
+      accuracy: this._accuracy,
+      showAccuracyCircle: this._showAccuracyCircle,
+    });
+  }
+
+  /**
+   * Draw the trail through the history while the markers are shown
+   * @private
+   */
+  private _updateTrail(): void {
+    if (this._markersVisible) {
+      this._trailLayer?.setPositions(
+        this._history.map((entry) => entry.lngLat),
+      );
+    } else {
+      this._trailLayer?.clear();
+    }
+  }
+
+  /**
+   * Make `trigger()` fail with an error instead of reporting the position
+   *
+   * With `trackUserLocation`, an error set while tracking is active is reported
+   * right away and puts the control into its error state, like a failing
+   * `watchPosition()`. Clearing the error resumes tracking at the current position.
+   *
+   * @param error - The error to simulate, or `null` to succeed again
+   *
+   * @example
+   * ```typescript
+   * control.setSimulatedError({ code: 3, delay: 2000 }); // TIMEOUT after 2 seconds
+   * ```
+   */
+  setSimulatedError(error: SimulatedGeolocationError | null): void {
+    this._simulatedError = error;
+    this._clearErrorTimer();
+    this._onSimulationChange();
+  }
+
+  /**
+   * Update the simulated geolocation permission
+   *
+   * `"denied"` disables the button and makes `trigger()` fail with a
+   * `PERMISSION_DENIED` error, turning tracking off if it is active.
+   *
+   * @param state - `"granted"`, `"prompt"` or `"denied"`
+   */
+  setPermissionState(state: PermissionState): void {
+    this._permissionState = state;
+    this._updateButtonDisabled();
+    this._onSimulationChange();
+  }
+
+  /**
+   * Get the simulated geolocation permission
+   * @returns The current permission state
+   */
+  getPermissionState(): PermissionState {
+    return this._permissionState;
+  }
+
+  /**
+   * Report a change of the simulated error to an active watch
+   * @private
+   */
+  private _onSimulationChange(): void {
+    if (this._watchState === "OFF") {
+      return;
+    }
+
+    const error = this.getPositionError();
+    if (error) {
+      // Replaces an error still pending after its delay
+      this._failWith(error);
+    } else if (this._watchState === "WAITING_ACTIVE") {
+      this._acquireFirstPosition();
+    } else if (this._watchState.endsWith("_ERROR")) {
+      this._onTrackedPositionUpdate();
+    }
+  }
+
+  /**
+   * Leave WAITING_ACTIVE once the simulated error that kept it waiting is cleared,
+   * like the first success of a watch
+   * @private
+   */
+  private _acquireFirstPosition(): void {
+    this._clearErrorTimer();
+
+    // The native control treats a first position outside maxBounds as an error
+    if (this._isOutOfMapMaxBounds()) {
+      this._setWatchState("ACTIVE_ERROR");
+      this._announce(this._labels.outOfMaxBounds);
+      this._fire("outofmaxbounds", this._createGeolocationPosition());
+      return;
+    }
+
+    this._setWatchState("ACTIVE_LOCK");
+    this._showLockedPosition();
+  }
+
+  /**
+   * Get the error that acquiring a position currently fails with
+   * @returns The simulated error, a `PERMISSION_DENIED` error while permission is
+   * denied, or `null`
+   */
+  getPositionError(): SimulatedGeolocationError | null {
+    if (this._permissionState === "denied") {
+      return { code: 1 };
+    }
+    return this._simulatedError;
+  }
+
+  /**
+   * Report a simulated error, after its delay if it has one
+   * @private
+   */
+  private _failWith({
+    code,
+    message,
+    delay = 0,
+  }: SimulatedGeolocationError): void {
+    const error = createGeolocationPositionError(code, message);
+
+    this._clearErrorTimer();
+    if (delay <= 0) {
+      this._onError(error);
+      return;
+    }
+
+    this._button?.classList.add("maplibregl-ctrl-geolocate-waiting");
+    const source = this._source;
+    this._errorTimer = setTimeout(() => {
+      this._errorTimer = undefined;
+      this._runWithSource(source, () => this._onError(error));
+    }, delay);
+  }
+
+  /**
+   * Cancel a pending delayed error
+   * @private
+   */
+  private _clearErrorTimer(): void {
+    if (this._errorTimer === undefined) {
+      return;
+    }
+
+    clearTimeout(this._errorTimer);
+    this._errorTimer = undefined;
+    if (!this._trackUserLocation) {
+      this._button?.classList.remove("maplibregl-ctrl-geolocate-waiting");
+    }
+  }
+
+  /**
+   * Apply an error the way the native control handles a geolocation failure
+   * @private
+   */
+  private _onError(error: GeolocationPositionError): void {
+    if (!this._map) {
+      // control has since been removed
+      return;
+    }
+
+    if (!this._trackUserLocation) {
+      this._button?.classList.remove("maplibregl-ctrl-geolocate-waiting");
+    }
+
+    // Only the simulated permission state disables the button, so that a
+    // simulated PERMISSION_DENIED error can be cleared with setSimulatedError()
+    if (error.code === error.PERMISSION_DENIED) {
+      if (this._watchState !== "OFF") {
+        this._setWatchState("OFF");
+        this._hideMarkers();
+      }
+    } else if (this._trackUserLocation) {
+      this._setWatchState(
+        this._watchState === "BACKGROUND" ||
+          this._watchState === "BACKGROUND_ERROR"
+          ? "BACKGROUND_ERROR"
+          : "ACTIVE_ERROR",
+      );
+    }
+
+    this._announce(this._labels.locationNotAvailable);
+    this._fire("error", error);
+  }
+
+  /**
+   * Disable the button while permission is denied
+   * @private
+   */
+  private _updateButtonDisabled(): void {
+    if (!this._button) {
+      return;
+    }
+
+    const disabled = this._permissionState === "denied";
+    this._button.disabled = disabled;
+    this._button.title = disabled
+      ? this._labels.locationNotAvailable
+      : this._labels.findMyLocation;
+    this._button.setAttribute("aria-label", this._button.title);
+  }
+
+  /**
+   * Get the current tracking mode watch state
+   * Always `OFF` when `trackUserLocation` is disabled.
+   * @returns The current watch state
+   */
+  getWatchState(): ManualGeolocateWatchState {
+    return this._watchState;
+  }
+
+  /**
+   * Update the accuracy radius
+   * @param accuracy - The new accuracy radius in meters
+   */
+  setAccuracy(accuracy: number): void {
+    this._accuracy = accuracy;
+    this._uncertaintyEllipse = null;
+    this._updateAccuracyCircle();
+    this._notifyPositionChange();
+  }
+
+  /**
+   * Replace the accuracy circle with an uncertainty ellipse
+   *
+   * `coords.accuracy` becomes the ellipse's equivalent radius, the radius of a circle with
+   * the same area. Calling `setAccuracy()` switches back to a circle.
+   *
+   * @param ellipse - The ellipse axes in meters and their orientation, or `null` to draw
+   * a circle of the current accuracy
+   *
+   * @example
+   * ```typescript
+   * // 80 m along a north-east street, 20 m across it
+   * control.setUncertaintyEllipse({ semiMajor: 80, semiMinor: 20, orientation: 45 });
+   * ```
+   */
+  setUncertaintyEllipse(ellipse: UncertaintyEllipse | null): void {
+    this._uncertaintyEllipse = ellipse;
+    if (ellipse) {
+      this._accuracy = equivalentRadius(ellipse);
+    }
+    this._updateAccuracyCircle();
+    this._notifyPositionChange();
+  }
+
+  /**
+   * Get the current uncertainty ellipse
+   * @returns The ellipse, or `null` when the accuracy is a circle
+   */
+  getUncertaintyEllipse(): UncertaintyEllipse | null {
+    return this._uncertaintyEllipse;
+  }
+
+  /**
+   * Update the heading shown by the heading cone and reported in `coords.heading`
+   * @param heading - Degrees clockwise from true north, or `null` if unknown
+   */
+  setHeading(heading: number | null): void {
+    this._heading = heading;
+    this._updateHeadingMarker();
+    this._notifyPositionChange();
+  }
+
+  /**
+   * Update any of the W3C `GeolocationCoordinates` fields at once
+   *
+   * Fields that are omitted keep their current value. Like `setPosition()`, this
+   * reports a `geolocate` event only while tracking mode is active.
+   *
+   * @param coords - The coordinate fields to update
+   *
+   * @example
+   * ```typescript
+   * control.setCoords({ altitude: 40, altitudeAccuracy: 5, speed: 1.2 });
+   * ```
+   */
+  setCoords(coords: Partial<ManualGeolocationCoordinates>): void {
+    if (coords.latitude !== undefined || coords.longitude !== undefined) {
+      this._position = new maplibregl.LngLat(
+        coords.longitude ?? this._position.lng,
+        coords.latitude ?? this._position.lat,
+      );
+    }
+    if (coords.accuracy !== undefined) {
+      this._accuracy = coords.accuracy;
+      this._uncertaintyEllipse = null;
+    }
+    if (coords.altitude !== undefined) this._altitude = coords.altitude;
+    if (coords.altitudeAccuracy !== undefined) {
+      this._altitudeAccuracy = coords.altitudeAccuracy;
+    }
+    if (coords.heading !== undefined) this._heading = coords.heading;
+    if (coords.speed !== undefined) this._speed = coords.speed;
+
+    this._updateMarkerPositions();
+    this._updateHeadingMarker();
+    this._notifyPositionChange();
+
+    if (this._trackUserLocation) {
+      this._onTrackedPositionUpdate();
+    }
+  }
+
+  /**
+   * Update the altitude reported in `coords.altitude`
+   * @param altitude - Meters above the WGS84 ellipsoid, or `null` if unknown
+   */
+  setAltitude(altitude: number | null): void {
+    this._altitude = altitude;
+    this._notifyPositionChange();
+  }
+
+  /**
+   * Update the altitude accuracy reported in `coords.altitudeAccuracy`
+   * @param altitudeAccuracy - Accuracy of the altitude in meters, or `null` if unknown
+   */
+  setAltitudeAccuracy(altitudeAccuracy: number | null): void {
+    this._altitudeAccuracy = altitudeAccuracy;
+    this._notifyPositionChange();
+  }
+
+  /**
+   * Update the speed reported in `coords.speed`
+   * @param speed - Ground speed in meters per second, or `null` if unknown
+   */
+  setSpeed(speed: number | null): void {
+    this._speed = speed;
+    this._notifyPositionChange();
+  }
+
+  /**
+   * Set the timestamp reported by events
+   * @param timestamp - Milliseconds since the Unix epoch, or `null` to use the time each event is fired
+   */
+  setTimestamp(timestamp: number | null): void {
+    this._timestamp = timestamp ?? undefined;
+    this._updateStaleness();
+  }
+
+  /**
+   * Get the timestamp set for events
+   * @returns Milliseconds since the Unix epoch, or `null` when each event is stamped with the time it is fired
+   */
+  getTimestamp(): number | null {
+    return this._timestamp ?? null;
+  }
+
+  /**
+   * Change the age after which the position is stale
+   * @param maximumAge - Milliseconds, or `Infinity` to never mark the position stale
+   */
+  setMaximumAge(maximumAge: number): void {
+    this._maximumAge = maximumAge;
+    this._updateStaleness();
+  }
+
+  /**
+   * Whether the position is older than `maximumAge`
+   */
+  isPositionStale(): boolean {
+    return this._getPositionAge() >= this._maximumAge;
+  }
+
+  /**
+   * Toggle the heading cone visibility
+   * The cone is only drawn while a heading is known.
+   * @param show - Whether to show the heading cone
+   */
+  setShowUserHeading(show: boolean): void {
+    this._showUserHeading = show;
+    this._updateHeadingMarker();
+  }
+
+  /**
+   * Toggle the accuracy circle visibility
+   * @param show - Whether to show the accuracy circle
+   */
+  setShowAccuracyCircle(show: boolean): void {
+    this._showAccuracyCircle = show;
+    this._saveState();
+    this._updatePanel();
+
+    if (this._accuracyLayer) {
+      this._updateAccuracyCircle();
+      return;
+    }
+
+    if (!this._map || !this._accuracyMarker) {
+      return;
+    }
+
+    if (show) {
+      // Show the accuracy circle
+      this._accuracyMarker.addTo(this._map);
+      this._setupMapEventListeners();
+      this._updateAccuracyCircle();
+    } else {
+      // Hide the accuracy circle
+      this._accuracyMarker.remove();
+      this._removeMapEventListeners();
+    }
+  }
+
+  /**
+   * Enter position pick mode: the next click on the map sets the manual position and
+   * fires a `positionpick` event. Press Escape or click the button again to cancel.
+   */
+  startPositionPick(): void {
+    if (!this._map || this.isPickingPosition()) {
+      return;
+    }
+
+    this._onPickClickHandler = this._onPickClick.bind(this);
+    this._onPickKeyDownHandler = this._onPickKeyDown.bind(this);
+    this._map.on("click", this._onPickClickHandler);
+    document.addEventListener("keydown", this._onPickKeyDownHandler);
+
+    this._map
+      .getContainer()
+      .classList.add("maplibregl-manual-geolocate-picking");
+    this._button?.classList.add("maplibregl-ctrl-geolocate-picking");
+  }
+
+  /**
+   * Leave position pick mode without changing the position
+   */
+  cancelPositionPick(): void {
+    if (this._onPickClickHandler) {
+      this._map?.off("click", this._onPickClickHandler);
+      this._onPickClickHandler = undefined;
+    }
+    if (this._onPickKeyDownHandler) {
+      document.removeEventListener("keydown", this._onPickKeyDownHandler);
+      this._onPickKeyDownHandler = undefined;
+    }
+
+    this._map
+      ?.getContainer()
+      .classList.remove("maplibregl-manual-geolocate-picking");
+    this._button?.classList.remove("maplibregl-ctrl-geolocate-picking");
+  }
+
+  /**
+   * Whether position pick mode is active
+   */
+  isPickingPosition(): boolean {
+    return this._onPickClickHandler !== undefined;
+  }
+
+  /**
+   * Toggle whether the position dot can be dragged and nudged with the arrow keys
+   * @param draggable - Whether the dot is draggable
+   */
+  setDraggable(draggable: boolean): void {
+    this._draggable = draggable;
+    this._keyboardDragging = false;
+    this._positionMarker?.setDraggable(draggable);
+    this._updateDotAccessibility();
+  }
+
+  /**
+   * Change the colors and sizes of the dot and the accuracy circle
+   * @param style - Properties to change. Properties set to `undefined` return to the
+   * native look, and omitted ones are kept.
+   */
+  setMarkerStyle(style: MarkerStyle): void {
+    this._markerStyle = { ...this._markerStyle, ...style };
+    this._applyMarkerStyle();
+  }
+
+  /**
+   * Show an element at the position instead of the blue dot
+   * @param element - The element, or `null` to show the blue dot again
+   */
+  setPositionElement(element: HTMLElement | null): void {
+    this._positionElement = element;
+    if (!this._map) {
+      return;
+    }
+
+    this._removePositionMarker();
+    this._createPositionMarker();
+    this._applyMarkerStyle();
+    if (this._markersVisible) {
+      // Added last so it stays above the heading cone
+      this._positionMarker!.addTo(this._map);
+      this._updateHeadingMarker();
     }
+  }
+
+  /**
+   * Set the callback drawing into the element at the position
+   * @param renderer - The callback, or `null` to stop calling it
+   */
+  setRenderPosition(renderer: PositionRenderer | null): void {
+    this._renderPosition = renderer;
+    this._renderPositionElement();
+  }
+
+  /**
+   * Move the accuracy layers before another layer, in `"layer"` mode
+   * @param beforeId - Id of an existing layer, or `undefined` to move them to the top
+   */
+  setAccuracyCircleBeforeId(beforeId: string | undefined): void {
+    this._accuracyCircleBeforeId = beforeId;
+    this._accuracyLayer?.setBeforeId(beforeId);
+  }
+
+  /**
+   * Update the fit bounds options used when zooming to position
+   * @param options - The FitBoundsOptions to use for map.fitBounds() calls
+   */
+  setFitBoundsOptions(options: FitBoundsOptions): void {
+    this._fitBoundsOptions = options;
+  }
+
+  /**
+   * Register an event listener
+   * @param type - The event type (see `ManualGeolocateEventMap`)
+   * @param listener - Called with the event's payload, `type`, `target` and `source`
+   * @returns A subscription whose `unsubscribe()` removes the listener
+   */
+  override on<T extends ManualGeolocateEventType>(
+    type: T,
+    listener: ManualGeolocateEventListener<T>,
+  ): Subscription {
+    return super.on(type, listener);
+  }
+
+  /**
+   * Remove an event listener
+   * @param type - The event type
+   * @param listener - The listener to remove
+   */
+  override off<T extends ManualGeolocateEventType>(
+    type: T,
+    listener: ManualGeolocateEventListener<T>,
+  ): this {
+    return super.off(type, listener);
+  }
 
-    const handlers = this._eventHandlers[type]!;
-    for (const handler of handlers) {
-      handler(data);
+  /**
+   * Register a listener called only the next time an event is fired
+   * @param type - The event type
+   * @param listener - The listener. When omitted, a promise of the event is returned.
+   *
+   * @example
+   * ```typescript
+   * const { coords } = await control.once("geolocate");
+   * ```
+   */
+  override once<T extends ManualGeolocateEventType>(
+    type: T,
+    listener: ManualGeolocateEventListener<T>,
+  ): this;
+  override once<T extends ManualGeolocateEventType>(
+    type: T,
+  ): Promise<ManualGeolocateEvent<T>>;
+  override once<T extends ManualGeolocateEventType>(
+    type: T,
+    listener?: ManualGeolocateEventListener<T>,
+  ): this | Promise<ManualGeolocateEvent<T>> {
+    return super.once(type, listener);
+  }
+
+  /**
+   * Fire the events of a call with a source other than `"api"`
+   * @param source - The source reported by the events
+   * @param callback - The call
+   * @private
+   */
+  private _runWithSource<R>(
+    source: ManualGeolocateEventSource,
+    callback: () => R,
+  ): R {
+    const previous = this._source;
+    this._source = source;
+    try {
+      return callback();
+    } finally {
+      this._source = previous;
     }
   }
+
+  /**
+   * Fire an event with the source of the current call
+   * @private
+   */
+  private _fire<T extends ManualGeolocateEventType>(
+    type: T,
+    ...[data]: object extends ManualGeolocateEventMap[T]
+      ? []
+      : [ManualGeolocateEventMap[T]]
+  ): void {
+    this.fire(new maplibregl.Event(type, { ...data, source: this._source }));
+  }
+}
+
+/**
+ * Whether a projection type needs a curvature-aware accuracy circle
+ * @private
+ */
+function isGlobeProjection(type: unknown): boolean {
+  return type !== undefined && type !== "mercator";
+}
+
+/**
+ * Radius of the circle with the same area as an ellipse
+ * @private
+ */
+function equivalentRadius({
+  semiMajor,
+  semiMinor,
+}: UncertaintyEllipse): number {
+  return Math.sqrt(semiMajor * semiMinor);
+}
+
+/**
+ * Bounds enclosing an uncertainty ellipse around a center
+ * @private
+ */
+function ellipseBounds(
+  center: maplibregl.LngLat,
+  { semiMajor, semiMinor, orientation }: UncertaintyEllipse,
+): maplibregl.LngLatBounds {
+  const angle = (orientation * Math.PI) / 180;
+  const sin = Math.sin(angle);
+  const cos = Math.cos(angle);
+
+  // Half extents of the rotated ellipse along the east and north axes, in meters
+  const east = Math.hypot(semiMajor * sin, semiMinor * cos);
+  const north = Math.hypot(semiMajor * cos, semiMinor * sin);
+
+  // Same spherical approximation as LngLatBounds.fromLngLat
+  const latAccuracy = (360 * north) / 40075017;
+  const lngAccuracy =
+    (360 * east) / (40075017 * Math.cos((Math.PI / 180) * center.lat));
+
+  return new maplibregl.LngLatBounds(
+    new maplibregl.LngLat(center.lng - lngAccuracy, center.lat - latAccuracy),
+    new maplibregl.LngLat(center.lng + lngAccuracy, center.lat + latAccuracy),
+  );
+}
+
+/**
+ * Paint of the accuracy layers, with the native look for properties that are not set
+ * @private
+ */
+function resolveAccuracyPaint(style: MarkerStyle): AccuracyPaint {
+  return {
+    fillColor: style.accuracyFillColor ?? DEFAULT_ACCURACY_PAINT.fillColor,
+    fillOpacity:
+      style.accuracyFillOpacity ?? DEFAULT_ACCURACY_PAINT.fillOpacity,
+    strokeColor:
+      style.accuracyStrokeColor ?? DEFAULT_ACCURACY_PAINT.strokeColor,
+    strokeOpacity:
+      style.accuracyStrokeOpacity ?? DEFAULT_ACCURACY_PAINT.strokeOpacity,
+    strokeWidth:
+      style.accuracyStrokeWidth ?? DEFAULT_ACCURACY_PAINT.strokeWidth,
+  };
+}
+
+/**
+ * Set or remove one of the `--maplibregl-manual-geolocate-*` custom properties
+ * @private
+ */
+function setCustomProperty(
+  element: HTMLElement,
+  name: string,
+  value: string | undefined,
+): void {
+  if (value === undefined) {
+    element.style.removeProperty(`--maplibregl-manual-geolocate-${name}`);
+  } else {
+    element.style.setProperty(`--maplibregl-manual-geolocate-${name}`, value);
+  }
+}
+
+/**
+ * @private
+ */
+function toPixels(value: number | undefined): string | undefined {
+  return value === undefined ? undefined : `${value}px`;
+}
+
+/**
+ * A CSS color with an opacity applied, for any color syntax
+ * @private
+ */
+function withOpacity(color: string, opacity: number): string {
+  return `color-mix(in srgb, ${color} ${opacity * 100}%, transparent)`;
+}
+
+/**
+ * Copy a preset, converting its position to a new LngLat
+ * @private
+ */
+function clonePreset(preset: PositionPreset): PositionPreset {
+  const { lng, lat } = maplibregl.LngLat.convert(preset.position);
+  return { ...preset, position: new maplibregl.LngLat(lng, lat) };
 }
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ManualGeolocateControl } from "./ManualGeolocateControl";
+import { ManualGeolocation } from "./ManualGeolocation";
+import { ManualPositionStore } from "./ManualPositionStore";
+
+describe("ManualGeolocation", () => {
+  let store: ManualPositionStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new ManualPositionStore({
+      position: [139.7, 35.6],
+      accuracy: 20,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve getCurrentPosition asynchronously", () => {
+    const geolocation = new ManualGeolocation(store);
+    const success = vi.fn();
+
+    geolocation.getCurrentPosition(success);
+    expect(success).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+    expect(success).toHaveBeenCalledTimes(1);
+    const position: GeolocationPosition = success.mock.calls[0][0];
+    expect(position.coords.longitude).toBe(139.7);
+    expect(position.coords.latitude).toBe(35.6);
+    expect(position.coords.accuracy).toBe(20);
+  });
+
+  it("should fail with TIMEOUT when the timeout does not exceed the delay", () => {
+    const geolocation = new ManualGeolocation(store, { delay: 500 });
+    const success = vi.fn();
+    const error = vi.fn();
+
+    geolocation.getCurrentPosition(success, error, { timeout: 200 });
+    vi.advanceTimersByTime(200);
+
+    expect(success).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][0].code).toBe(3);
+    expect(error.mock.calls[0][0].TIMEOUT).toBe(3);
+  });
+
+  it("should serve cached positions within maximumAge", () => {
+    const geolocation = new ManualGeolocation(store);
+    const first = vi.fn();
+    const second = vi.fn();
+
+    geolocation.getCurrentPosition(first);
+    vi.runAllTimers();
+
+    // A position read directly from the store would differ
+    store.setTimestamp(0);
+    geolocation.getCurrentPosition(second, null, { maximumAge: 60_000 });
+    vi.runAllTimers();
+
+    expect(second.mock.calls[0][0]).toBe(first.mock.calls[0][0]);
+  });
+
+  it("should call watch callbacks on every setPosition() until cleared", () => {
+    const geolocation = new ManualGeolocation(store);
+    const success = vi.fn();
+
+    const watchId = geolocation.watchPosition(success);
+    vi.runAllTimers();
+    expect(success).toHaveBeenCalledTimes(1);
+
+    store.setPosition([139.71, 35.61]);
+    vi.runAllTimers();
+    store.setPosition([139.72, 35.62]);
+    vi.runAllTimers();
+    expect(success).toHaveBeenCalledTimes(3);
+    expect(success.mock.calls[2][0].coords.longitude).toBe(139.72);
+
+    geolocation.clearWatch(watchId);
+    store.setPosition([139.73, 35.63]);
+    vi.runAllTimers();
+    expect(success).toHaveBeenCalledTimes(3);
+  });
+
+  it("should fail with the control's simulated error and denied permission", () => {
+    const control = new ManualGeolocateControl({ position: [139.7, 35.6] });
+    const geolocation = new ManualGeolocation(control);
+    const success = vi.fn();
+    const error = vi.fn();
+
+    control.setSimulatedError({ code: 2, delay: 100 });
+    geolocation.getCurrentPosition(success, error);
+    vi.advanceTimersByTime(99);
+    expect(error).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(error.mock.calls[0][0]).toMatchObject({
+      code: 2,
+      message: "Position unavailable",
+    });
+
+    control.setSimulatedError(null);
+    control.setPermissionState("denied");
+    geolocation.getCurrentPosition(success, error);
+    vi.runAllTimers();
+    expect(error.mock.calls[1][0].code).toBe(1);
+
+    control.setPermissionState("granted");
+    geolocation.getCurrentPosition(success, error);
+    vi.runAllTimers();
+    expect(success).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledTimes(2);
+  });
+
+  it("should call watch callbacks when the control's speed or heading changes", () => {
+    const control = new ManualGeolocateControl({ position: [139.7, 35.6] });
+    const geolocation = new ManualGeolocation(control);
+    const success = vi.fn();
+
+    geolocation.watchPosition(success);
+    vi.runAllTimers();
+    control.setSpeed(1.4);
+    vi.runAllTimers();
+    control.setHeading(90);
+    vi.runAllTimers();
+
+    expect(success).toHaveBeenCalledTimes(3);
+    expect(success.mock.calls[2][0].coords).toMatchObject({
+      speed: 1.4,
+      heading: 90,
+    });
+  });
+
+  it("should replace and restore navigator.geolocation", () => {
+    const original = navigator.geolocation;
+    const geolocation = new ManualGeolocation(store);
+
+    geolocation.install();
+    expect(navigator.geolocation).toBe(geolocation);
+    expect(geolocation.isInstalled()).toBe(true);
+
+    geolocation.uninstall();
+    expect(navigator.geolocation).toBe(original);
+    expect(Object.hasOwn(navigator, "geolocation")).toBe(false);
+    expect(geolocation.isInstalled()).toBe(false);
+  });
+
+  it("should clear watches on uninstall", () => {
+    const geolocation = new ManualGeolocation(store);
+    const success = vi.fn();
+
+    geolocation.install();
+    navigator.geolocation.watchPosition(success);
+    geolocation.uninstall();
+
+    store.setPosition([139.71, 35.61]);
+    vi.runAllTimers();
+    expect(success).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,248 @@
+import { createGeolocationPositionError } from "./geolocation";
+import type { ManualGeolocationOptions, PositionSource } from "./types";
+
+/**
+ * A pending getCurrentPosition() request or an active watch
+ * @private
+ */
+interface PositionRequest {
+  success: PositionCallback;
+  error?: PositionErrorCallback | null;
+  options: PositionOptions;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A `navigator.geolocation` replacement whose positions come from a
+ * ManualGeolocateControl or a ManualPositionStore.
+ *
+ * Callbacks are always invoked asynchronously, like the browser's. `maximumAge` is
+ * served from the last position handed out, `timeout` fails requests with a
+ * `TIMEOUT` error when it does not exceed the simulated `delay`, and each watch is
+ * called back on every change of the source's position. A control's simulated error
+ * and denied permission fail requests like they fail `trigger()`.
+ *
+ * @example
+ * ```typescript
+ * const geolocation = new ManualGeolocation(manualGeolocateControl);
+ * geolocation.install();
+ * // Third-party code now receives the manual position
+ * navigator.geolocation.watchPosition((position) => console.log(position.coords));
+ * geolocation.uninstall();
+ * ```
+ */
+export class ManualGeolocation implements Geolocation {
+  private _source: PositionSource;
+  private _delay: number;
+
+  // Last position handed out, for maximumAge
+  private _cachedPosition?: GeolocationPosition;
+  private _cachedAt = 0;
+
+  private _pending = new Set<PositionRequest>();
+  private _watches = new Map<number, PositionRequest>();
+  private _nextWatchId = 1;
+  private _unsubscribe?: () => void;
+
+  // The navigator patched by install() and its previous own property, if any
+  private _installedOn?: Navigator;
+  private _originalDescriptor?: PropertyDescriptor;
+
+  /**
+   * Creates a new ManualGeolocation instance
+   * @param source - Where positions are read from
+   * @param options - Configuration options
+   */
+  constructor(source: PositionSource, options: ManualGeolocationOptions = {}) {
+    this._source = source;
+    this._delay = options.delay ?? 0;
+  }
+
+  /**
+   * Replace `navigator.geolocation` with this instance
+   * @param target - The navigator to patch. Defaults to the global `navigator`.
+   */
+  install(target: Navigator = navigator): void {
+    if (this._installedOn) {
+      throw new Error("ManualGeolocation: already installed");
+    }
+
+    this._installedOn = target;
+    this._originalDescriptor = Object.getOwnPropertyDescriptor(
+      target,
+      "geolocation",
+    );
+    Object.defineProperty(target, "geolocation", {
+      configurable: true,
+      enumerable: true,
+      get: () => this,
+    });
+  }
+
+  /**
+   * Restore the original `navigator.geolocation` and clear all watches and pending requests
+   */
+  uninstall(): void {
+    const target = this._installedOn;
+    if (!target) {
+      return;
+    }
+
+    if (this._originalDescriptor) {
+      Object.defineProperty(target, "geolocation", this._originalDescriptor);
+    } else {
+      delete (target as { geolocation?: Geolocation }).geolocation;
+    }
+    this._installedOn = undefined;
+    this._originalDescriptor = undefined;
+
+    for (const watchId of [...this._watches.keys()]) {
+      this.clearWatch(watchId);
+    }
+    for (const request of this._pending) {
+      clearTimeout(request.timer);
+    }
+    this._pending.clear();
+  }
+
+  /**
+   * Whether this instance currently replaces `navigator.geolocation`
+   */
+  isInstalled(): boolean {
+    return this._installedOn !== undefined;
+  }
+
+  /**
+   * Get the current position once
+   * @param successCallback - Called with the position
+   * @param errorCallback - Called with a `TIMEOUT` error when the request times out, or
+   * with the source's simulated error
+   * @param options - Standard `PositionOptions`
+   */
+  getCurrentPosition(
+    successCallback: PositionCallback,
+    errorCallback?: PositionErrorCallback | null,
+    options: PositionOptions = {},
+  ): void {
+    const request: PositionRequest = {
+      success: successCallback,
+      error: errorCallback,
+      options,
+    };
+    this._pending.add(request);
+    this._acquire(request, () => this._pending.delete(request));
+  }
+
+  /**
+   * Watch the position. The success callback is called with the current position and
+   * again after every change made to the source.
+   * @param successCallback - Called with each position
+   * @param errorCallback - Called with a `TIMEOUT` error when an update times out, or
+   * with the source's simulated error
+   * @param options - Standard `PositionOptions`
+   * @returns An id to pass to `clearWatch()`
+   */
+  watchPosition(
+    successCallback: PositionCallback,
+    errorCallback?: PositionErrorCallback | null,
+    options: PositionOptions = {},
+  ): number {
+    const watchId = this._nextWatchId++;
+    const request: PositionRequest = {
+      success: successCallback,
+      error: errorCallback,
+      options,
+    };
+    this._watches.set(watchId, request);
+
+    if (!this._unsubscribe) {
+      this._unsubscribe = this._source.onPositionChange(this._onSourceChange);
+    }
+
+    this._acquire(request);
+    return watchId;
+  }
+
+  /**
+   * Stop a watch started with `watchPosition()`
+   * @param watchId - The id returned by `watchPosition()`
+   */
+  clearWatch(watchId: number): void {
+    const request = this._watches.get(watchId);
+    if (!request) {
+      return;
+    }
+
+    clearTimeout(request.timer);
+    this._watches.delete(watchId);
+
+    if (this._watches.size === 0) {
+      this._unsubscribe?.();
+      this._unsubscribe = undefined;
+    }
+  }
+
+  /**
+   * Deliver a fresh position to every watch
+   * @private
+   */
+  private _onSourceChange = (): void => {
+    // The cached position is outdated once the source has moved
+    this._cachedPosition = undefined;
+    for (const request of this._watches.values()) {
+      this._acquire(request);
+    }
+  };
+
+  /**
+   * Schedule the success or error callback of a request according to its options
+   * @private
+   */
+  private _acquire(request: PositionRequest, onDone?: () => void): void {
+    clearTimeout(request.timer);
+
+    const maximumAge = request.options.maximumAge ?? 0;
+    const timeout = request.options.timeout ?? Number.POSITIVE_INFINITY;
+
+    const settle = (delay: number, callback: () => void) => {
+      request.timer = setTimeout(() => {
+        request.timer = undefined;
+        onDone?.();
+        callback();
+      }, delay);
+    };
+
+    // A simulated error wins over the cache, as a denied permission would
+    const error = this._source.getPositionError?.();
+    const delay = error?.delay ?? this._delay;
+
+    const cached = this._cachedPosition;
+    if (!error && cached && Date.now() - this._cachedAt <= maximumAge) {
+      settle(0, () => request.success(cached));
+      return;
+    }
+
+    if (timeout <= delay) {
+      settle(Math.max(timeout, 0), () => {
+        request.error?.(createGeolocationPositionError(3));
+      });
+      return;
+    }
+
+    if (error) {
+      settle(delay, () => {
+        request.error?.(
+          createGeolocationPositionError(error.code, error.message),
+        );
+      });
+      return;
+    }
+
+    settle(this._delay, () => {
+      const position = this._source.getGeolocationPosition();
+      this._cachedPosition = position;
+      this._cachedAt = Date.now();
+      request.success(position);
+    });
+  }
+}
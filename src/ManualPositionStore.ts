@@ -0,0 +1,142 @@
+import maplibregl, { type LngLatLike } from "maplibre-gl";
+import { createGeolocationPosition } from "./geolocation";
+import type {
+  ManualGeolocationCoordinates,
+  ManualPositionStoreOptions,
+  PositionSource,
+} from "./types";
+
+/**
+ * A standalone manual position, for driving `ManualGeolocation` without a map control.
+ *
+ * @example
+ * ```typescript
+ * const store = new ManualPositionStore({
+ *   position: [139.74135747, 35.65809922],
+ *   accuracy: 20,
+ * });
+ * new ManualGeolocation(store).install();
+ * ```
+ */
+export class ManualPositionStore implements PositionSource {
+  private _position: maplibregl.LngLat;
+  private _accuracy: number;
+  private _heading: number | null;
+  private _altitude: number | null;
+  private _altitudeAccuracy: number | null;
+  private _speed: number | null;
+  // Fixed timestamp; when undefined the current time is used
+  private _timestamp?: number;
+
+  private _listeners: Array<() => void> = [];
+
+  /**
+   * Creates a new ManualPositionStore instance
+   * @param options - The initial position and coordinate fields
+   */
+  constructor(options: ManualPositionStoreOptions) {
+    if (!options.position) {
+      throw new Error("ManualPositionStore: position option is required");
+    }
+
+    this._position = maplibregl.LngLat.convert(options.position);
+    this._accuracy = options.accuracy ?? 50;
+    this._heading = options.heading ?? null;
+    this._altitude = options.altitude ?? null;
+    this._altitudeAccuracy = options.altitudeAccuracy ?? null;
+    this._speed = options.speed ?? null;
+    this._timestamp = options.timestamp ?? undefined;
+  }
+
+  /**
+   * Update the position
+   * @param coordinates - The new position coordinates
+   */
+  setPosition(coordinates: LngLatLike): void {
+    this._position = maplibregl.LngLat.convert(coordinates);
+    this._notify();
+  }
+
+  /**
+   * Update the accuracy radius
+   * @param accuracy - The new accuracy radius in meters
+   */
+  setAccuracy(accuracy: number): void {
+    this._accuracy = accuracy;
+    this._notify();
+  }
+
+  /**
+   * Update any of the W3C `GeolocationCoordinates` fields at once.
+   * Fields that are omitted keep their current value.
+   * @param coords - The coordinate fields to update
+   */
+  setCoords(coords: Partial<ManualGeolocationCoordinates>): void {
+    if (coords.latitude !== undefined || coords.longitude !== undefined) {
+      this._position = new maplibregl.LngLat(
+        coords.longitude ?? this._position.lng,
+        coords.latitude ?? this._position.lat,
+      );
+    }
+    if (coords.accuracy !== undefined) this._accuracy = coords.accuracy;
+    if (coords.altitude !== undefined) this._altitude = coords.altitude;
+    if (coords.altitudeAccuracy !== undefined) {
+      this._altitudeAccuracy = coords.altitudeAccuracy;
+    }
+    if (coords.heading !== undefined) this._heading = coords.heading;
+    if (coords.speed !== undefined) this._speed = coords.speed;
+    this._notify();
+  }
+
+  /**
+   * Set the timestamp reported by positions
+   * @param timestamp - Milliseconds since the Unix epoch, or `null` to use the time each position is read
+   */
+  setTimestamp(timestamp: number | null): void {
+    this._timestamp = timestamp ?? undefined;
+  }
+
+  /**
+   * Get the current position as a W3C GeolocationPosition
+   * @returns The current position
+   */
+  getGeolocationPosition(): GeolocationPosition {
+    return createGeolocationPosition(
+      {
+        latitude: this._position.lat,
+        longitude: this._position.lng,
+        accuracy: this._accuracy,
+        altitude: this._altitude,
+        altitudeAccuracy: this._altitudeAccuracy,
+        heading: this._heading,
+        speed: this._speed,
+      },
+      this._timestamp ?? Date.now(),
+    );
+  }
+
+  /**
+   * Register a listener called whenever the position or its coordinate fields change
+   * @param listener - Called after each change
+   * @returns A function that unregisters the listener
+   */
+  onPositionChange(listener: () => void): () => void {
+    this._listeners.push(listener);
+    return () => {
+      const index = this._listeners.indexOf(listener);
+      if (index !== -1) {
+        this._listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Notify position change listeners
+   * @private
+   */
+  private _notify(): void {
+    for (const listener of [...this._listeners]) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import maplibregl from "maplibre-gl";
+import { describe, expect, it, vi } from "vitest";
+import { ManualPositions } from "./ManualPositions";
+
+type Handler = (event?: any) => void;
+
+// Just enough of the Map style and event API to observe the source, layers and
+// layer click listeners. setStyle() drops everything, like a new style would.
+function createStyleMapStub(glyphs?: string) {
+  const sources = new Map<string, { data: any }>();
+  const images = new Set<string>();
+  let layers: Array<{ id: string }> = [];
+  const handlers = new Map<string, Set<Handler>>();
+  let setDataCount = 0;
+
+  const key = (type: string, layerId?: string) =>
+    layerId ? `${type}:${layerId}` : type;
+
+  const map = {
+    getStyle: () => ({ layers, glyphs }),
+    getSource: (id: string) => {
+      const source = sources.get(id);
+      return (
+        source && {
+          setData: (data: unknown) => {
+            source.data = data;
+            setDataCount++;
+          },
+        }
+      );
+    },
+    addSource: (id: string, source: { data: unknown }) => {
+      sources.set(id, { data: source.data });
+    },
+    removeSource: (id: string) => sources.delete(id),
+    getLayer: (id: string) => layers.find((layer) => layer.id === id),
+    addLayer: (layer: { id: string }) => {
+      layers.push(layer);
+    },
+    removeLayer: (id: string) => {
+      layers = layers.filter((layer) => layer.id !== id);
+    },
+    hasImage: (id: string) => images.has(id),
+    addImage: (id: string) => images.add(id),
+    removeImage: (id: string) => images.delete(id),
+    on: (type: string, ...args: [Handler] | [string, Handler]) => {
+      const handler = args.pop() as Handler;
+      const id = key(type, args[0] as string | undefined);
+      if (!handlers.has(id)) handlers.set(id, new Set());
+      handlers.get(id)!.add(handler);
+    },
+    off: (type: string, ...args: [Handler] | [string, Handler]) => {
+      const handler = args.pop() as Handler;
+      handlers.get(key(type, args[0] as string | undefined))?.delete(handler);
+    },
+  };
+
+  const fire = (type: string, layerId?: string, event?: unknown) => {
+    for (const handler of [...(handlers.get(key(type, layerId)) ?? [])]) {
+      handler(event);
+    }
+  };
+
+  const setStyle = (styleLayers: Array<{ id: string }>) => {
+    sources.clear();
+    images.clear();
+    layers = [...styleLayers];
+    fire("styledata");
+  };
+
+  return {
+    map: map as unknown as maplibregl.Map,
+    setStyle,
+    fire,
+    layerIds: () => layers.map((layer) => layer.id),
+    getFeatures: (id: string): GeoJSON.Feature[] | undefined =>
+      sources.get(id)?.data.features,
+    hasImage: (id: string) => images.has(id),
+    getSetDataCount: () => setDataCount,
+  };
+}
+
+describe("ManualPositions", () => {
+  it("should draw a dot per entity and an accuracy circle where known", () => {
+    const { map, layerIds, getFeatures } = createStyleMapStub();
+    const positions = new ManualPositions(map);
+
+    positions.add({ id: "alice", position: [139.7, 35.6], accuracy: 30 });
+    positions.add({
+      id: "bob",
+      position: [139.71, 35.61],
+      color: "#e53935",
+      heading: 90,
+    });
+
+    expect(layerIds()).toEqual([
+      "manual-positions-accuracy-fill",
+      "manual-positions-accuracy-line",
+      "manual-positions-heading",
+      "manual-positions-dot",
+    ]);
+
+    const features = getFeatures("manual-positions")!;
+    expect(features.map((feature) => feature.geometry.type)).toEqual([
+      "Polygon",
+      "Point",
+      "Point",
+    ]);
+    expect(features[1].properties).toEqual({ id: "alice", color: "#1da1f2" });
+    expect(features[2].properties).toEqual({
+      id: "bob",
+      color: "#e53935",
+      heading: 90,
+    });
+  });
+
+  it("should update and remove entities by id, firing events", () => {
+    const { map, getFeatures } = createStyleMapStub();
+    const positions = new ManualPositions(map);
+    const addHandler = vi.fn();
+    const updateHandler = vi.fn();
+    const removeHandler = vi.fn();
+    positions.on("add", addHandler);
+    positions.on("update", updateHandler);
+    positions.on("remove", removeHandler);
+
+    positions.add({ id: "alice", position: [139.7, 35.6], label: "Alice" });
+    positions.update("alice", { position: [139.8, 35.7] });
+
+    expect(addHandler.mock.calls[0][0]).toMatchObject({
+      type: "add",
+      target: positions,
+      id: "alice",
+      entity: { id: "alice", position: [139.7, 35.6], label: "Alice" },
+    });
+    expect(updateHandler.mock.calls[0][0].entity).toEqual({
+      id: "alice",
+      position: [139.8, 35.7],
+      label: "Alice",
+    });
+    expect(getFeatures("manual-positions")![0].geometry).toEqual({
+      type: "Point",
+      coordinates: [139.8, 35.7],
+    });
+
+    positions.remove("alice");
+    expect(removeHandler.mock.calls[0][0].id).toBe("alice");
+    expect(positions.has("alice")).toBe(false);
+    expect(getFeatures("manual-positions")).toEqual([]);
+
+    expect(() => positions.update("alice", { accuracy: 5 })).toThrow(
+      'ManualPositions: no entity with id "alice"',
+    );
+  });
+
+  it("should update the source once per batch", () => {
+    const { map, getFeatures, getSetDataCount } = createStyleMapStub();
+    const positions = new ManualPositions(map);
+    const addHandler = vi.fn();
+    positions.on("add", addHandler);
+
+    positions.batch(() => {
+      positions.add({ id: "alice", position: [139.7, 35.6] });
+      positions.batch(() => {
+        positions.add({ id: "bob", position: [139.8, 35.7] });
+      });
+      positions.update("alice", { position: [139.71, 35.61] });
+      expect(getSetDataCount()).toBe(0);
+    });
+
+    expect(getSetDataCount()).toBe(1);
+    expect(addHandler).toHaveBeenCalledTimes(2);
+    expect(getFeatures("manual-positions")).toHaveLength(2);
+
+    positions.batch(() => {});
+    expect(getSetDataCount()).toBe(1);
+  });
+
+  it("should reject duplicate ids", () => {
+    const { map } = createStyleMapStub();
+    const positions = new ManualPositions(map);
+    positions.add({ id: "alice", position: [139.7, 35.6] });
+
+    expect(() =>
+      positions.add({ id: "alice", position: [139.8, 35.7] }),
+    ).toThrow('ManualPositions: entity "alice" already exists');
+  });
+
+  it("should fire click with the id of the clicked dot", () => {
+    const { map, fire } = createStyleMapStub();
+    const positions = new ManualPositions(map);
+    positions.add({ id: "alice", position: [139.7, 35.6] });
+    const clickHandler = vi.fn();
+    positions.on("click", clickHandler);
+
+    const lngLat = new maplibregl.LngLat(139.7, 35.6);
+    fire("click", "manual-positions-dot", {
+      lngLat,
+      features: [{ properties: { id: "alice" } }],
+    });
+
+    expect(clickHandler.mock.calls[0][0]).toMatchObject({
+      type: "click",
+      id: "alice",
+      entity: { id: "alice", position: [139.7, 35.6] },
+      lngLat,
+    });
+  });
+
+  it("should add labels only when the style has glyphs", () => {
+    const { map, layerIds } = createStyleMapStub("https://example.com/{range}");
+    new ManualPositions(map);
+
+    expect(layerIds()).toContain("manual-positions-label");
+  });
+
+  it("should survive a style change and clean up on destroy", () => {
+    const { map, setStyle, layerIds, getFeatures, hasImage } =
+      createStyleMapStub();
+    const positions = new ManualPositions(map, { id: "team" });
+    positions.add({ id: "alice", position: [139.7, 35.6], heading: 0 });
+
+    setStyle([{ id: "roads" }]);
+    expect(layerIds()).toContain("team-dot");
+    expect(hasImage("team-heading")).toBe(true);
+    expect(getFeatures("team")).toHaveLength(1);
+
+    positions.destroy();
+    expect(layerIds()).toEqual(["roads"]);
+    expect(getFeatures("team")).toBeUndefined();
+    expect(hasImage("team-heading")).toBe(false);
+  });
+});
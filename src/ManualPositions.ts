@@ -0,0 +1,488 @@
+import maplibregl, {
+  type GeoJSONSource,
+  type LayerSpecification,
+  type MapLayerMouseEvent,
+  type Subscription,
+} from "maplibre-gl";
+import { createGeodesicEllipse } from "./AccuracyLayer";
+import { addGeoJSONLayers } from "./styleLayers";
+import type {
+  ManualPositionEntity,
+  ManualPositionsEvent,
+  ManualPositionsEventListener,
+  ManualPositionsEventMap,
+  ManualPositionsEventType,
+  ManualPositionsOptions,
+} from "./types";
+
+const DEFAULT_COLOR = "#1da1f2";
+
+// Size in pixels of the heading cone image, matching the control's heading cone
+const HEADING_IMAGE_SIZE = 60;
+
+/**
+ * Shows many id-keyed positions, such as the members of a field team, each with its own
+ * accuracy circle, color, label and heading.
+ *
+ * Unlike `ManualGeolocateControl`, which uses DOM markers for a single position, all
+ * entities are drawn by style layers from one `geojson` source, so hundreds of them stay
+ * cheap to render and update. The source and layers are added again whenever a new
+ * style removes them, e.g. after `map.setStyle()`.
+ *
+ * @example
+ * ```typescript
+ * const positions = new ManualPositions(map);
+ * positions.add({ id: "alice", position: [139.7, 35.6], accuracy: 30, label: "Alice" });
+ * positions.update("alice", { position: [139.71, 35.61], heading: 90 });
+ * positions.on("click", ({ id }) => console.log(`Clicked ${id}`));
+ * ```
+ */
+export class ManualPositions extends maplibregl.Evented {
+  private _map: maplibregl.Map;
+  private _id: string;
+  private _beforeId?: string;
+  private _entities = new Map<string, ManualPositionEntity>();
+  // GeoJSON features of each entity, rebuilt only when that entity changes
+  private _features = new Map<string, GeoJSON.Feature[]>();
+  // Nesting depth of batch() calls, and whether the source is due an update after them
+  private _batchDepth = 0;
+  private _renderPending = false;
+  private _onStyleDataHandler: () => void;
+  private _onClickHandler: (event: MapLayerMouseEvent) => void;
+
+  /**
+   * Creates a new ManualPositions collection
+   * @param map - The map to draw on
+   * @param options - Configuration options for the collection
+   */
+  constructor(map: maplibregl.Map, options: ManualPositionsOptions = {}) {
+    super();
+    this._map = map;
+    this._id = options.id ?? "manual-positions";
+    this._beforeId = options.beforeId;
+
+    this._onStyleDataHandler = () => this._addToStyle();
+    this._onClickHandler = this._onClick.bind(this);
+    this._map.on("styledata", this._onStyleDataHandler);
+    this._map.on("click", this._layerIds().dot, this._onClickHandler);
+    this._addToStyle();
+  }
+
+  /**
+   * Add an entity
+   * @param entity - The entity to add. Its id must not be in use.
+   */
+  add(entity: ManualPositionEntity): this {
+    if (this._entities.has(entity.id)) {
+      throw new Error(`ManualPositions: entity "${entity.id}" already exists`);
+    }
+    this._set({ ...entity });
+    this._fire("add", { id: entity.id, entity: this.get(entity.id)! });
+    return this;
+  }
+
+  /**
+   * Change some fields of an entity. Fields that are omitted keep their current value.
+   * @param id - Id of the entity
+   * @param changes - The fields to change
+   */
+  update(id: string, changes: Partial<Omit<ManualPositionEntity, "id">>): this {
+    const entity = this._entities.get(id);
+    if (!entity) {
+      throw new Error(`ManualPositions: no entity with id "${id}"`);
+    }
+    this._set({ ...entity, ...changes, id });
+    this._fire("update", { id, entity: this.get(id)! });
+    return this;
+  }
+
+  /**
+   * Remove an entity. Unknown ids are ignored.
+   * @param id - Id of the entity
+   */
+  remove(id: string): this {
+    const entity = this._entities.get(id);
+    if (!entity) {
+      return this;
+    }
+    this._entities.delete(id);
+    this._features.delete(id);
+    this._render();
+    this._fire("remove", { id, entity: { ...entity } });
+    return this;
+  }
+
+  /**
+   * Remove all entities, firing `remove` for each of them
+   */
+  clear(): this {
+    const entities = [...this._entities.values()];
+    this._entities.clear();
+    this._features.clear();
+    this._render();
+    for (const entity of entities) {
+      this._fire("remove", { id: entity.id, entity: { ...entity } });
+    }
+    return this;
+  }
+
+  /**
+   * Make several changes with a single update of the map source. Events are still
+   * fired as each change is made.
+   * @param callback - Makes the changes, e.g. by calling `add()`, `update()` and `remove()`
+   *
+   * @example
+   * ```typescript
+   * positions.batch(() => {
+   *   positions.update("alice", { position: [139.71, 35.61] });
+   *   positions.update("bob", { position: [139.72, 35.62] });
+   * });
+   * ```
+   */
+  batch(callback: () => void): this {
+    this._batchDepth++;
+    try {
+      callback();
+    } finally {
+      this._batchDepth--;
+      if (this._batchDepth === 0 && this._renderPending) {
+        this._render();
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Whether an entity with the given id exists
+   * @param id - Id of the entity
+   */
+  has(id: string): boolean {
+    return this._entities.has(id);
+  }
+
+  /**
+   * Get a copy of an entity
+   * @param id - Id of the entity
+   * @returns The entity, or `undefined` if there is none with that id
+   */
+  get(id: string): ManualPositionEntity | undefined {
+    const entity = this._entities.get(id);
+    return entity && { ...entity };
+  }
+
+  /**
+   * Get copies of all entities in the order they were added
+   */
+  getAll(): ManualPositionEntity[] {
+    return Array.from(this._entities.values(), (entity) => ({ ...entity }));
+  }
+
+  /**
+   * Remove the source, layers and heading image from the map
+   */
+  destroy(): void {
+    this._map.off("styledata", this._onStyleDataHandler);
+    this._map.off("click", this._layerIds().dot, this._onClickHandler);
+    for (const layerId of Object.values(this._layerIds())) {
+      if (this._map.getLayer(layerId)) {
+        this._map.removeLayer(layerId);
+      }
+    }
+    if (this._map.getSource(this._id)) {
+      this._map.removeSource(this._id);
+    }
+    if (this._map.hasImage(this._imageId())) {
+      this._map.removeImage(this._imageId());
+    }
+  }
+
+  /**
+   * Register an event listener
+   * @param type - The event type (see `ManualPositionsEventMap`)
+   * @param listener - Called with the event's payload, `type` and `target`
+   * @returns A subscription whose `unsubscribe()` removes the listener
+   */
+  override on<T extends ManualPositionsEventType>(
+    type: T,
+    listener: ManualPositionsEventListener<T>,
+  ): Subscription {
+    return super.on(type, listener);
+  }
+
+  /**
+   * Remove an event listener
+   * @param type - The event type
+   * @param listener - The listener to remove
+   */
+  override off<T extends ManualPositionsEventType>(
+    type: T,
+    listener: ManualPositionsEventListener<T>,
+  ): this {
+    return super.off(type, listener);
+  }
+
+  /**
+   * Register a listener called only the next time an event is fired
+   * @param type - The event type
+   * @param listener - The listener. When omitted, a promise of the event is returned.
+   */
+  override once<T extends ManualPositionsEventType>(
+    type: T,
+    listener: ManualPositionsEventListener<T>,
+  ): this;
+  override once<T extends ManualPositionsEventType>(
+    type: T,
+  ): Promise<ManualPositionsEvent<T>>;
+  override once<T extends ManualPositionsEventType>(
+    type: T,
+    listener?: ManualPositionsEventListener<T>,
+  ): this | Promise<ManualPositionsEvent<T>> {
+    return super.once(type, listener);
+  }
+
+  /**
+   * Fire an event
+   * @private
+   */
+  private _fire<T extends ManualPositionsEventType>(
+    type: T,
+    data: ManualPositionsEventMap[T],
+  ): void {
+    this.fire(new maplibregl.Event(type, data));
+  }
+
+  /**
+   * Store an entity and redraw it
+   * @private
+   */
+  private _set(entity: ManualPositionEntity): void {
+    this._entities.set(entity.id, entity);
+    this._features.set(entity.id, createFeatures(entity));
+    this._render();
+  }
+
+  /**
+   * Fire `click` with the id of the topmost clicked dot
+   * @private
+   */
+  private _onClick(event: MapLayerMouseEvent): void {
+    const id = event.features?.[0]?.properties?.id;
+    const entity = typeof id === "string" ? this.get(id) : undefined;
+    if (entity) {
+      this._fire("click", { id: entity.id, entity, lngLat: event.lngLat });
+    }
+  }
+
+  /**
+   * Ids of the layers, from bottom to top
+   * @private
+   */
+  private _layerIds() {
+    return {
+      fill: `${this._id}-accuracy-fill`,
+      line: `${this._id}-accuracy-line`,
+      heading: `${this._id}-heading`,
+      dot: `${this._id}-dot`,
+      label: `${this._id}-label`,
+    };
+  }
+
+  /**
+   * Id of the heading cone image
+   * @private
+   */
+  private _imageId(): string {
+    return `${this._id}-heading`;
+  }
+
+  /**
+   * Update the source data with the features of all entities
+   * @private
+   */
+  private _render(): void {
+    if (this._batchDepth > 0) {
+      this._renderPending = true;
+      return;
+    }
+
+    this._renderPending = false;
+    if (this._addToStyle()) {
+      this._map.getSource<GeoJSONSource>(this._id)?.setData(this._getData());
+    }
+  }
+
+  /**
+   * @private
+   */
+  private _getData(): GeoJSON.FeatureCollection {
+    return {
+      type: "FeatureCollection",
+      features: [...this._features.values()].flat(),
+    };
+  }
+
+  /**
+   * Add the source, layers and heading image if the current style lacks them
+   * @private
+   * @returns Whether the source is part of the style
+   */
+  private _addToStyle(): boolean {
+    return addGeoJSONLayers(this._map, {
+      id: this._id,
+      data: () => this._getData(),
+      layers: () => this._createLayers(),
+      beforeId: this._beforeId,
+    });
+  }
+
+  /**
+   * Build the layers, adding the heading image they use
+   * @private
+   */
+  private _createLayers(): LayerSpecification[] {
+    const ids = this._layerIds();
+    const source = this._id;
+
+    if (!this._map.hasImage(this._imageId())) {
+      this._map.addImage(this._imageId(), createHeadingImage(), { sdf: true });
+    }
+
+    const layers: LayerSpecification[] = [
+      {
+        id: ids.fill,
+        type: "fill",
+        source,
+        filter: ["==", ["geometry-type"], "Polygon"],
+        paint: {
+          "fill-color": ["get", "color"],
+          "fill-opacity": 0.2,
+        },
+      },
+      {
+        id: ids.line,
+        type: "line",
+        source,
+        filter: ["==", ["geometry-type"], "Polygon"],
+        paint: {
+          "line-color": ["get", "color"],
+          "line-opacity": 0.5,
+          "line-width": 1,
+        },
+      },
+      {
+        id: ids.heading,
+        type: "symbol",
+        source,
+        filter: ["has", "heading"],
+        layout: {
+          "icon-image": this._imageId(),
+          "icon-rotate": ["get", "heading"],
+          "icon-rotation-alignment": "map",
+          "icon-allow-overlap": true,
+          "icon-ignore-placement": true,
+        },
+        paint: {
+          "icon-color": ["get", "color"],
+          "icon-opacity": 0.6,
+        },
+      },
+      {
+        id: ids.dot,
+        type: "circle",
+        source,
+        filter: ["==", ["geometry-type"], "Point"],
+        paint: {
+          "circle-radius": 5.5,
+          "circle-color": ["get", "color"],
+          "circle-stroke-width": 2,
+          "circle-stroke-color": "#fff",
+        },
+      },
+    ];
+
+    // Text can't be drawn without a glyph server
+    if (this._map.getStyle().glyphs) {
+      layers.push({
+        id: ids.label,
+        type: "symbol",
+        source,
+        filter: ["has", "label"],
+        layout: {
+          "text-field": ["get", "label"],
+          "text-size": 12,
+          "text-anchor": "top",
+          "text-offset": [0, 1],
+        },
+        paint: {
+          "text-halo-color": "#fff",
+          "text-halo-width": 1,
+        },
+      });
+    }
+
+    return layers;
+  }
+}
+
+/**
+ * Build the dot and accuracy circle features of an entity
+ * @private
+ */
+function createFeatures(entity: ManualPositionEntity): GeoJSON.Feature[] {
+  const center = maplibregl.LngLat.convert(entity.position);
+  const properties: GeoJSON.GeoJsonProperties = {
+    id: entity.id,
+    color: entity.color ?? DEFAULT_COLOR,
+  };
+  if (entity.label) {
+    properties.label = entity.label;
+  }
+  if (entity.heading != null && Number.isFinite(entity.heading)) {
+    properties.heading = entity.heading;
+  }
+
+  const features: GeoJSON.Feature[] = [];
+  if (entity.accuracy !== undefined && entity.accuracy > 0) {
+    const circle = createGeodesicEllipse(center, {
+      semiMajor: entity.accuracy,
+      semiMinor: entity.accuracy,
+      orientation: 0,
+    });
+    features.push({
+      ...circle,
+      properties: { id: entity.id, color: properties.color },
+    });
+  }
+  features.push({
+    type: "Feature",
+    properties,
+    geometry: { type: "Point", coordinates: [center.lng, center.lat] },
+  });
+  return features;
+}
+
+/**
+ * Draw the heading cone as a square image centered on the dot, pointing up.
+ * Opaque pixels form the shape of the control's heading cone so it can be
+ * tinted with `icon-color`.
+ * @private
+ */
+function createHeadingImage(): {
+  width: number;
+  height: number;
+  data: Uint8Array;
+} {
+  const size = HEADING_IMAGE_SIZE;
+  const half = size / 2;
+  const data = new Uint8Array(size * size * 4);
+  for (let y = 0; y < half; y++) {
+    // The cone widens from the center to half its height at the top edge
+    const halfWidth = (half - y) / 2;
+    for (let x = 0; x < size; x++) {
+      if (Math.abs(x + 0.5 - half) <= halfWidth) {
+        data[(y * size + x) * 4 + 3] = 255;
+      }
+    }
+  }
+  return { width: size, height: size, data };
+}
@@ -0,0 +1,178 @@
+import maplibregl from "maplibre-gl";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ManualGeolocateControl } from "./ManualGeolocateControl";
+import { PositionJitter } from "./PositionJitter";
+import { MemoryStorage } from "./storage";
+
+const truePosition = new maplibregl.LngLat(139.7, 35.6);
+
+function createControl() {
+  return new ManualGeolocateControl({ position: truePosition, accuracy: 10 });
+}
+
+function collectPositions(
+  jitter: PositionJitter,
+  control: ManualGeolocateControl,
+  n: number,
+) {
+  const positions: maplibregl.LngLat[] = [];
+  for (let i = 0; i < n; i++) {
+    jitter.step();
+    const { coords } = control.getGeolocationPosition();
+    positions.push(new maplibregl.LngLat(coords.longitude, coords.latitude));
+  }
+  return positions;
+}
+
+describe("PositionJitter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should produce the same positions for the same seed", () => {
+    const first = createControl();
+    const second = createControl();
+    const third = createControl();
+
+    const a = collectPositions(
+      new PositionJitter(first, { seed: 1 }),
+      first,
+      5,
+    );
+    const b = collectPositions(
+      new PositionJitter(second, { seed: 1 }),
+      second,
+      5,
+    );
+    const c = collectPositions(
+      new PositionJitter(third, { seed: 2 }),
+      third,
+      5,
+    );
+
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  it("should spread positions by sigma around the true position", () => {
+    for (const model of ["gaussian", "random-walk"] as const) {
+      const control = createControl();
+      const jitter = new PositionJitter(control, {
+        model,
+        sigma: 5,
+        outlierProbability: 0,
+        seed: 7,
+      });
+
+      const distances = collectPositions(jitter, control, 2000).map(
+        (position) => position.distanceTo(truePosition),
+      );
+      const rms = Math.sqrt(
+        distances.reduce((sum, d) => sum + d * d, 0) / distances.length,
+      );
+
+      // Two axes of sigma each
+      expect(rms).toBeGreaterThan(5 * Math.SQRT2 * 0.8);
+      expect(rms).toBeLessThan(5 * Math.SQRT2 * 1.2);
+    }
+  });
+
+  it("should grow the accuracy with the noise and jump on outliers", () => {
+    const control = createControl();
+    const jitter = new PositionJitter(control, {
+      sigma: 0,
+      outlierProbability: 1,
+      outlierDistance: 50,
+      seed: 3,
+    });
+
+    jitter.step();
+
+    const { coords } = control.getGeolocationPosition();
+    const position = new maplibregl.LngLat(coords.longitude, coords.latitude);
+    expect(position.distanceTo(truePosition)).toBeCloseTo(50, 0);
+    expect(coords.accuracy).toBeCloseTo(60);
+  });
+
+  it("should update at a fixed rate and restore the true position on stop", () => {
+    vi.useFakeTimers();
+    const control = createControl();
+    const jitter = new PositionJitter(control, { interval: 500, seed: 1 });
+    const listener = vi.fn();
+    control.onPositionChange(listener);
+
+    jitter.start();
+    vi.advanceTimersByTime(1000);
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    jitter.stop();
+    expect(jitter.isRunning()).toBe(false);
+    expect(control.getGeolocationPosition().coords).toMatchObject({
+      longitude: 139.7,
+      latitude: 35.6,
+      accuracy: 10,
+    });
+
+    vi.advanceTimersByTime(1000);
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+
+  it("should keep the ellipse and timestamp through a jitter cycle", () => {
+    vi.useFakeTimers();
+    const control = createControl();
+    const ellipse = { semiMajor: 30, semiMinor: 10, orientation: 45 };
+    control.setUncertaintyEllipse(ellipse);
+    control.setTimestamp(1_000_000);
+    const jitter = new PositionJitter(control, { interval: 500, seed: 1 });
+
+    jitter.start();
+    vi.advanceTimersByTime(500);
+    const noisy = control.getUncertaintyEllipse();
+    expect(noisy?.orientation).toBe(45);
+    expect(noisy!.semiMajor - noisy!.semiMinor).toBeCloseTo(20, 9);
+    expect(noisy!.semiMajor).toBeGreaterThan(30);
+    expect(control.getTimestamp()).toBe(1_000_500);
+
+    jitter.stop();
+    expect(control.getUncertaintyEllipse()).toEqual(ellipse);
+    expect(control.getTimestamp()).toBe(1_000_000);
+  });
+
+  it("should follow positions set on the control while running", () => {
+    vi.useFakeTimers();
+    const control = createControl();
+    const jitter = new PositionJitter(control, { interval: 500, seed: 1 });
+
+    jitter.start();
+    control.setPosition([139.8, 35.7]);
+    vi.advanceTimersByTime(500);
+
+    expect(jitter.getTruePosition()?.toArray()).toEqual([139.8, 35.7]);
+    jitter.stop();
+  });
+
+  it("should keep noisy positions out of the history and saved state", () => {
+    vi.useFakeTimers();
+    const storage = new MemoryStorage();
+    const control = new ManualGeolocateControl({
+      position: truePosition,
+      timestamp: 0,
+      trail: true,
+      persistence: { storage },
+    });
+    control.setPosition([139.8, 35.7]);
+    const jitter = new PositionJitter(control, { seed: 1 });
+
+    collectPositions(jitter, control, 3);
+    vi.advanceTimersByTime(1000);
+
+    expect(control.getHistory().map(({ lngLat }) => lngLat.toArray())).toEqual([
+      [139.7, 35.6],
+      [139.8, 35.7],
+    ]);
+    expect(
+      JSON.parse(storage.getItem("maplibre-gl-manual-geolocate:position")!)
+        .position,
+    ).toEqual([139.8, 35.7]);
+  });
+});
@@ -0,0 +1,265 @@
+import maplibregl from "maplibre-gl";
+import type { ManualGeolocateControl } from "./ManualGeolocateControl";
+import type { PositionJitterOptions, UncertaintyEllipse } from "./types";
+
+// Mean Earth radius in meters, as used by MapLibre's LngLat#distanceTo
+const EARTH_RADIUS = 6371008.8;
+
+/**
+ * Perturbs the position of a ManualGeolocateControl with GNSS-like noise.
+ *
+ * While running, the control's position is treated as the true position and a noisy
+ * copy is applied through `ManualGeolocateControl#updatePosition` at a fixed interval.
+ * The reported accuracy grows with the distance of each noisy position from the true
+ * one, and occasional outliers jump much further. Positions set on the control by
+ * anything else, such as `setPosition()`, a drag or a `RoutePlayback`, become the new
+ * true position at the next update.
+ *
+ * @example
+ * ```typescript
+ * const jitter = new PositionJitter(manualGeolocateControl, {
+ *   model: "random-walk",
+ *   sigma: 8,
+ *   seed: 42, // Same positions on every run
+ * });
+ * jitter.start();
+ * ```
+ */
+export class PositionJitter {
+  private _control: ManualGeolocateControl;
+  private _model: "gaussian" | "random-walk";
+  private _sigma: number;
+  private _correlation: number;
+  private _outlierProbability: number;
+  private _outlierDistance: number;
+  private _interval: number;
+  private _random: () => number;
+
+  // True position, accuracy, ellipse and timestamp, captured from the control, and
+  // when they were captured
+  private _truePosition?: maplibregl.LngLat;
+  private _trueAccuracy = 0;
+  private _trueEllipse: UncertaintyEllipse | null = null;
+  private _trueTimestamp: number | null = null;
+  private _capturedAt = 0;
+
+  // Current noise offset in meters towards east and north
+  private _offset: [number, number] = [0, 0];
+
+  // Running state (only set while started)
+  private _timer?: ReturnType<typeof setInterval>;
+  private _unsubscribe?: () => void;
+
+  // Whether the control is being updated by this instance
+  private _applying = false;
+
+  /**
+   * Creates a new PositionJitter instance
+   * @param control - The control whose position is perturbed
+   * @param options - Configuration options for the noise
+   */
+  constructor(
+    control: ManualGeolocateControl,
+    options: PositionJitterOptions = {},
+  ) {
+    this._control = control;
+    this._model = options.model ?? "gaussian";
+    this._sigma = options.sigma ?? 5;
+    this._correlation = options.correlation ?? 0.9;
+    this._outlierProbability = options.outlierProbability ?? 0.02;
+    this._outlierDistance = options.outlierDistance ?? 50;
+    this._interval = options.interval ?? 1000;
+    this._random = createRandom(
+      options.seed ?? Math.floor(Math.random() * 2 ** 32),
+    );
+
+    if (!(this._interval > 0)) {
+      throw new Error("PositionJitter: interval must be greater than 0");
+    }
+    if (!(this._correlation >= 0 && this._correlation <= 1)) {
+      throw new Error("PositionJitter: correlation must be between 0 and 1");
+    }
+  }
+
+  /**
+   * Start applying noisy positions, the first one right away
+   */
+  start(): void {
+    if (this._timer !== undefined) {
+      return;
+    }
+
+    this._unsubscribe = this._control.onPositionChange(() => {
+      // Recapture the true position at the next update
+      if (!this._applying) {
+        this._truePosition = undefined;
+      }
+    });
+    this.step();
+    this._timer = setInterval(() => this.step(), this._interval);
+  }
+
+  /**
+   * Stop the noise and move the control back to the true position
+   */
+  stop(): void {
+    if (this._timer === undefined) {
+      return;
+    }
+
+    clearInterval(this._timer);
+    this._timer = undefined;
+    this._unsubscribe?.();
+    this._unsubscribe = undefined;
+
+    if (this._truePosition) {
+      this._apply(this._truePosition, 0, this._trueTimestamp);
+    }
+    this._truePosition = undefined;
+    this._offset = [0, 0];
+  }
+
+  /**
+   * Whether noisy positions are being applied
+   */
+  isRunning(): boolean {
+    return this._timer !== undefined;
+  }
+
+  /**
+   * Advance the noise by one update and apply the resulting position immediately.
+   * Called at every interval while running.
+   */
+  step(): void {
+    if (!this._truePosition) {
+      const { coords } = this._control.getGeolocationPosition();
+      this._truePosition = new maplibregl.LngLat(
+        coords.longitude,
+        coords.latitude,
+      );
+      this._trueAccuracy = coords.accuracy;
+      this._trueEllipse = this._control.getUncertaintyEllipse();
+      this._trueTimestamp = this._control.getTimestamp();
+      this._capturedAt = Date.now();
+    }
+
+    if (this._model === "random-walk") {
+      // First-order Gauss-Markov process, whose spread stays at sigma
+      const rho = this._correlation;
+      const scale = this._sigma * Math.sqrt(1 - rho * rho);
+      this._offset = [
+        this._offset[0] * rho + this._gaussian() * scale,
+        this._offset[1] * rho + this._gaussian() * scale,
+      ];
+    } else {
+      this._offset = [
+        this._gaussian() * this._sigma,
+        this._gaussian() * this._sigma,
+      ];
+    }
+
+    let [east, north] = this._offset;
+    if (this._random() < this._outlierProbability) {
+      // Outliers don't carry over into the next update
+      const direction = this._random() * 2 * Math.PI;
+      east += Math.sin(direction) * this._outlierDistance;
+      north += Math.cos(direction) * this._outlierDistance;
+    }
+
+    this._apply(
+      offsetPosition(this._truePosition, east, north),
+      Math.hypot(east, north),
+      this._trueTimestamp === null
+        ? null
+        : this._trueTimestamp + Date.now() - this._capturedAt,
+    );
+  }
+
+  /**
+   * Get the position the noise is applied around
+   * @returns The true position, or `undefined` before the first update
+   */
+  getTruePosition(): maplibregl.LngLat | undefined {
+    return this._truePosition;
+  }
+
+  /**
+   * Update the control without taking the change as a new true position
+   * @param position - The position to apply
+   * @param spread - Meters to widen the true accuracy, or the axes of its ellipse, by
+   * @param timestamp - The timestamp to report, or `null` to stamp each event
+   * @private
+   */
+  private _apply(
+    position: maplibregl.LngLat,
+    spread: number,
+    timestamp: number | null,
+  ): void {
+    const ellipse = this._trueEllipse && {
+      ...this._trueEllipse,
+      semiMajor: this._trueEllipse.semiMajor + spread,
+      semiMinor: this._trueEllipse.semiMinor + spread,
+    };
+
+    // Keep the fields the noise doesn't touch
+    const { coords } = this._control.getGeolocationPosition();
+    this._applying = true;
+    try {
+      this._control.updatePosition({
+        position,
+        accuracy: this._trueAccuracy + spread,
+        uncertaintyEllipse: ellipse ?? undefined,
+        timestamp: timestamp ?? undefined,
+        altitude: coords.altitude,
+        altitudeAccuracy: coords.altitudeAccuracy,
+        heading: coords.heading,
+        speed: coords.speed,
+        source: "jitter",
+      });
+    } finally {
+      this._applying = false;
+    }
+  }
+
+  /**
+   * Draw from the standard normal distribution with the Box-Muller transform
+   * @private
+   */
+  private _gaussian(): number {
+    const u = 1 - this._random(); // Avoid log(0)
+    const v = this._random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+/**
+ * Seeded pseudo-random number generator (mulberry32) returning values in [0, 1)
+ * @private
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Move a position by a small distance towards east and north
+ * @private
+ */
+function offsetPosition(
+  position: maplibregl.LngLat,
+  east: number,
+  north: number,
+): maplibregl.LngLat {
+  const toDegrees = 180 / Math.PI;
+  const lat = position.lat + (north / EARTH_RADIUS) * toDegrees;
+  const lng =
+    position.lng +
+    (east / (EARTH_RADIUS * Math.cos(position.lat / toDegrees))) * toDegrees;
+  return new maplibregl.LngLat(lng, lat);
+}
@@ -0,0 +1,280 @@
+import maplibregl from "maplibre-gl";
+import type { ManualGeolocateControl } from "./ManualGeolocateControl";
+import type { ManualGeolocateLabels, PositionPreset } from "./types";
+
+// Makes element ids unique when several controls have a menu
+let menuCount = 0;
+
+// Makes ids of places saved from the menu unique within a page load
+let placeCount = 0;
+
+/**
+ * Menu button in the control group listing the control's presets. Selecting an item calls
+ * `selectPreset()`. It follows the WAI-ARIA menu button pattern: the arrow keys, Home and
+ * End move between items, Escape closes the menu, and Delete removes a saved place.
+ *
+ * @private
+ */
+export class PresetMenu {
+  private _control: ManualGeolocateControl;
+  private _container: HTMLElement;
+  private _labels: ManualGeolocateLabels;
+  private _savePlaces: boolean;
+
+  private _button: HTMLButtonElement;
+  private _menu: HTMLElement;
+
+  // Ids of the items that can be removed with the Delete key
+  private _removableIds = new Set<string>();
+
+  // Closes the menu on clicks outside of the control while it is open
+  private _onDocumentPointerDownHandler: (event: PointerEvent) => void;
+
+  /**
+   * @param control - The control whose presets are listed
+   * @param container - The control's `maplibregl-ctrl-group` element
+   * @param labels - Text of the menu
+   * @param savePlaces - Whether to add an item that saves the current position
+   */
+  constructor(
+    control: ManualGeolocateControl,
+    container: HTMLElement,
+    labels: ManualGeolocateLabels,
+    savePlaces: boolean,
+  ) {
+    this._control = control;
+    this._container = container;
+    this._labels = labels;
+    this._savePlaces = savePlaces;
+    const id = `maplibregl-manual-geolocate-presets-${++menuCount}`;
+
+    this._button = document.createElement("button");
+    this._button.type = "button";
+    this._button.className = "maplibregl-ctrl-manual-geolocate-presets";
+    this._button.title = labels.presets;
+    this._button.setAttribute("aria-label", this._button.title);
+    this._button.setAttribute("aria-haspopup", "menu");
+    this._button.setAttribute("aria-controls", id);
+    this._button.setAttribute("aria-expanded", "false");
+    const iconSpan = document.createElement("span");
+    iconSpan.className = "maplibregl-ctrl-icon";
+    iconSpan.setAttribute("aria-hidden", "true");
+    this._button.appendChild(iconSpan);
+
+    this._menu = document.createElement("div");
+    this._menu.id = id;
+    this._menu.className = "maplibregl-manual-geolocate-presets";
+    this._menu.setAttribute("role", "menu");
+    this._menu.setAttribute("aria-label", this._button.title);
+    this._menu.hidden = true;
+
+    this._button.addEventListener("click", () => {
+      if (this.isOpen()) {
+        this.close();
+      } else {
+        this.open();
+        this._focusItem(0);
+      }
+    });
+    this._button.addEventListener("keydown", (event) => {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        this.open();
+        this._focusItem(event.key === "ArrowDown" ? 0 : -1);
+      }
+    });
+    this._menu.addEventListener("keydown", (event) => {
+      this._onMenuKeyDown(event);
+    });
+    this._onDocumentPointerDownHandler = (event) => {
+      if (!this._container.contains(event.target as Node)) {
+        this.close();
+      }
+    };
+
+    container.classList.add("maplibregl-manual-geolocate-presets-container");
+    container.append(this._button, this._menu);
+  }
+
+  /**
+   * Show the menu
+   */
+  open(): void {
+    if (this.isOpen()) {
+      return;
+    }
+    this._menu.hidden = false;
+    this._button.setAttribute("aria-expanded", "true");
+    document.addEventListener(
+      "pointerdown",
+      this._onDocumentPointerDownHandler,
+    );
+  }
+
+  /**
+   * Hide the menu
+   */
+  close(): void {
+    this._menu.hidden = true;
+    this._button.setAttribute("aria-expanded", "false");
+    document.removeEventListener(
+      "pointerdown",
+      this._onDocumentPointerDownHandler,
+    );
+  }
+
+  /**
+   * Whether the menu is shown
+   */
+  isOpen(): boolean {
+    return !this._menu.hidden;
+  }
+
+  /**
+   * List the presets in the menu
+   * @param presets - The presets, in menu order
+   * @param removableIds - Ids of the saved places, which can be removed from the menu
+   */
+  update(presets: PositionPreset[], removableIds: Set<string>): void {
+    this._removableIds = removableIds;
+    const focusedIndex = this._getItems().indexOf(
+      document.activeElement as HTMLElement,
+    );
+
+    const items: HTMLElement[] = presets.map((preset) => {
+      const item = createItem(preset.label);
+      item.dataset.presetId = preset.id;
+      item.addEventListener("click", () => {
+        this.close();
+        this._button.focus();
+        this._control.selectPreset(preset.id);
+      });
+      return item;
+    });
+
+    if (items.length === 0) {
+      const item = createItem(this._labels.noPresets);
+      item.setAttribute("aria-disabled", "true");
+      items.push(item);
+    }
+
+    if (this._savePlaces) {
+      const separator = document.createElement("div");
+      separator.setAttribute("role", "separator");
+      items.push(separator);
+
+      const item = createItem(this._labels.saveCurrentPosition);
+      item.addEventListener("click", () => {
+        this._saveCurrentPosition();
+      });
+      items.push(item);
+    }
+
+    this._menu.replaceChildren(...items);
+
+    // Keep the focus in the menu when the focused item was removed
+    if (focusedIndex !== -1) {
+      this._focusItem(Math.min(focusedIndex, this._getItems().length - 1));
+    }
+  }
+
+  /**
+   * Remove the menu and its button from the control group
+   */
+  remove(): void {
+    this.close();
+    this._button.remove();
+    this._menu.remove();
+    this._container.classList.remove(
+      "maplibregl-manual-geolocate-presets-container",
+    );
+  }
+
+  /**
+   * @private
+   */
+  private _onMenuKeyDown(event: KeyboardEvent): void {
+    const items = this._getItems();
+    const index = items.indexOf(event.target as HTMLElement);
+
+    switch (event.key) {
+      case "ArrowDown":
+        this._focusItem((index + 1) % items.length);
+        break;
+      case "ArrowUp":
+        this._focusItem((index - 1 + items.length) % items.length);
+        break;
+      case "Home":
+        this._focusItem(0);
+        break;
+      case "End":
+        this._focusItem(-1);
+        break;
+      case "Escape":
+        event.stopPropagation();
+        this.close();
+        this._button.focus();
+        break;
+      case "Tab":
+        this.close();
+        return;
+      case "Delete":
+      case "Backspace": {
+        const id = (event.target as HTMLElement).dataset.presetId;
+        if (id === undefined || !this._removableIds.has(id)) {
+          return;
+        }
+        this._control.removePreset(id);
+        break;
+      }
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  /**
+   * Save the current position as a preset labeled with its coordinates
+   * @private
+   */
+  private _saveCurrentPosition(): void {
+    const { coords } = this._control.getGeolocationPosition();
+    this._control.addPreset({
+      id: `place-${Date.now().toString(36)}-${++placeCount}`,
+      label: `${coords.latitude.toFixed(5)}, ${coords.longitude.toFixed(5)}`,
+      position: new maplibregl.LngLat(coords.longitude, coords.latitude),
+      accuracy: coords.accuracy,
+    });
+  }
+
+  /**
+   * Focus an item, counting from the end when the index is negative
+   * @private
+   */
+  private _focusItem(index: number): void {
+    const items = this._getItems();
+    items.at(index)?.focus();
+  }
+
+  /**
+   * The items that can be focused
+   * @private
+   */
+  private _getItems(): HTMLElement[] {
+    return Array.from(
+      this._menu.querySelectorAll<HTMLElement>("[role=menuitem]"),
+    );
+  }
+}
+
+/**
+ * @private
+ */
+function createItem(text: string): HTMLButtonElement {
+  const item = document.createElement("button");
+  item.type = "button";
+  item.setAttribute("role", "menuitem");
+  item.tabIndex = -1;
+  item.textContent = text;
+  return item;
+}
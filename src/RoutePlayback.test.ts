@@ -0,0 +1,209 @@
+import maplibregl from "maplibre-gl";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ManualGeolocateControl } from "./ManualGeolocateControl";
+import { RoutePlayback } from "./RoutePlayback";
+import type { PositionFix } from "./types";
+
+// RoutePlayback only talks to the control through updatePosition() and its
+// remove event, so a stub control is enough to observe the frames it produces.
+function createControlStub() {
+  const updatePosition = vi.fn<(fix: PositionFix) => void>();
+  const control = Object.assign(new maplibregl.Evented(), {
+    updatePosition,
+  }) as unknown as ManualGeolocateControl;
+  return { control, updatePosition };
+}
+
+// ~111m due north, then ~91m due east (at 35.6°N)
+const line: GeoJSON.LineString = {
+  type: "LineString",
+  coordinates: [
+    [139.7, 35.6],
+    [139.7, 35.601],
+    [139.701, 35.601],
+  ],
+};
+
+describe("RoutePlayback", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should derive the duration of a LineString from the speed", () => {
+    const { control } = createControlStub();
+    const playback = new RoutePlayback(control, line, { speed: 10 });
+
+    // ~202m at 10 m/s
+    expect(playback.getDuration()).toBeGreaterThan(19_000);
+    expect(playback.getDuration()).toBeLessThan(21_000);
+  });
+
+  it("should interpolate the position and compute heading and speed on seek", () => {
+    const { control, updatePosition } = createControlStub();
+    const playback = new RoutePlayback(control, line, { speed: 10 });
+
+    playback.seek(5_000);
+
+    const fix = updatePosition.mock.calls[0][0];
+    const position = fix.position as { lng: number; lat: number };
+    expect(position.lng).toBeCloseTo(139.7, 6);
+    expect(position.lat).toBeGreaterThan(35.6);
+    expect(position.lat).toBeLessThan(35.601);
+    expect(fix.heading).toBeCloseTo(0, 3);
+    expect(fix.speed).toBeCloseTo(10, 3);
+
+    playback.seek(playback.getDuration() - 1);
+    expect(updatePosition.mock.lastCall?.[0].heading).toBeCloseTo(90, 0);
+  });
+
+  it("should replay timestamped fixes with their recorded timing", () => {
+    const { control, updatePosition } = createControlStub();
+    const playback = new RoutePlayback(control, [
+      { position: [139.7, 35.6], timestamp: 1_000, accuracy: 10 },
+      { position: [139.7, 35.601], timestamp: 11_000, accuracy: 30 },
+    ]);
+
+    expect(playback.getDuration()).toBe(10_000);
+
+    playback.seek(5_000);
+    const fix = updatePosition.mock.calls[0][0];
+    expect(fix.accuracy).toBeCloseTo(20);
+    expect(fix.speed).toBeCloseTo(11.1, 1);
+    expect(fix.timestamp).toBe(6_000);
+  });
+
+  it("should cross the antimeridian the short way", () => {
+    const { control, updatePosition } = createControlStub();
+    const playback = new RoutePlayback(
+      control,
+      {
+        type: "LineString",
+        coordinates: [
+          [179.9, 0],
+          [-179.9, 0],
+        ],
+      },
+      { speed: 10 },
+    );
+
+    playback.seek(playback.getDuration() / 4);
+    const position = updatePosition.mock.calls[0][0].position as {
+      lng: number;
+    };
+    expect(position.lng).toBeCloseTo(179.95, 6);
+
+    playback.seek((playback.getDuration() * 3) / 4);
+    expect(
+      (updatePosition.mock.lastCall?.[0].position as { lng: number }).lng,
+    ).toBeCloseTo(-179.95, 6);
+  });
+
+  it("should walk untimed fixes at the given speed and keep their altitude", () => {
+    const { control, updatePosition } = createControlStub();
+    const playback = new RoutePlayback(
+      control,
+      [
+        { position: [139.7, 35.6], altitude: 10 },
+        { position: [139.7, 35.601], altitude: 20 },
+      ],
+      { speed: 10 },
+    );
+
+    playback.seek(playback.getDuration() / 2);
+    expect(updatePosition.mock.calls[0][0].altitude).toBeCloseTo(15);
+  });
+
+  it("should reject invalid routes", () => {
+    const { control } = createControlStub();
+
+    expect(
+      () =>
+        new RoutePlayback(control, {
+          type: "LineString",
+          coordinates: [[139.7, 35.6]],
+        }),
+    ).toThrow("at least two points");
+
+    expect(
+      () =>
+        new RoutePlayback(control, [
+          { position: [139.7, 35.6], timestamp: 2_000 },
+          { position: [139.7, 35.601], timestamp: 1_000 },
+        ]),
+    ).toThrow("ascending order");
+  });
+
+  it("should advance with time scale, pause and stop at the end", () => {
+    vi.useFakeTimers({
+      toFake: ["requestAnimationFrame", "cancelAnimationFrame", "performance"],
+    });
+
+    const { control, updatePosition } = createControlStub();
+    const playback = new RoutePlayback(control, line, {
+      speed: 10,
+      timeScale: 10,
+    });
+
+    playback.play();
+    expect(playback.isPlaying()).toBe(true);
+
+    vi.advanceTimersByTime(1_000);
+    expect(playback.getCurrentTime()).toBeGreaterThan(9_000);
+    expect(playback.getCurrentTime()).toBeLessThanOrEqual(10_000);
+
+    playback.pause();
+    const pausedAt = playback.getCurrentTime();
+    const callCount = updatePosition.mock.calls.length;
+    vi.advanceTimersByTime(1_000);
+    expect(playback.getCurrentTime()).toBe(pausedAt);
+    expect(updatePosition.mock.calls.length).toBe(callCount);
+
+    playback.play();
+    vi.advanceTimersByTime(5_000);
+    expect(playback.isPlaying()).toBe(false);
+    expect(playback.getCurrentTime()).toBe(playback.getDuration());
+
+    playback.stop();
+    expect(playback.getCurrentTime()).toBe(0);
+  });
+
+  it("should wrap around when looping", () => {
+    vi.useFakeTimers({
+      toFake: ["requestAnimationFrame", "cancelAnimationFrame", "performance"],
+    });
+
+    const { control } = createControlStub();
+    const playback = new RoutePlayback(control, line, {
+      speed: 10,
+      timeScale: 10,
+      loop: true,
+    });
+
+    playback.play();
+    vi.advanceTimersByTime(2_500);
+    expect(playback.isPlaying()).toBe(true);
+    expect(playback.getCurrentTime()).toBeLessThan(playback.getDuration());
+
+    playback.stop();
+  });
+
+  it("should pause when the control is removed and after destroy", () => {
+    vi.useFakeTimers({
+      toFake: ["requestAnimationFrame", "cancelAnimationFrame", "performance"],
+    });
+
+    const { control, updatePosition } = createControlStub();
+    const playback = new RoutePlayback(control, line, { speed: 10 });
+
+    playback.play();
+    control.fire(new maplibregl.Event("remove"));
+    expect(playback.isPlaying()).toBe(false);
+
+    playback.play();
+    playback.destroy();
+    const callCount = updatePosition.mock.calls.length;
+    vi.advanceTimersByTime(1_000);
+    expect(playback.isPlaying()).toBe(false);
+    expect(updatePosition.mock.calls.length).toBe(callCount);
+  });
+});
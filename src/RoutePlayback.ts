@@ -0,0 +1,349 @@
+import maplibregl, { type Subscription } from "maplibre-gl";
+import type { ManualGeolocateControl } from "./ManualGeolocateControl";
+import type { PositionFix, RoutePlaybackOptions } from "./types";
+
+/**
+ * A point on the playback timeline
+ * @private
+ */
+interface Keyframe {
+  lngLat: maplibregl.LngLat;
+  // Milliseconds since the start of the route
+  time: number;
+  accuracy?: number;
+  altitude?: number | null;
+}
+
+/**
+ * Animates the position of a ManualGeolocateControl along a route.
+ *
+ * The route is either a GeoJSON LineString or a list of position fixes, such as a timeline
+ * returned by `parseGPX()`. Fixes that all carry a timestamp are replayed with their recorded
+ * timing and timestamps; anything else is walked at a constant `speed`. Every frame is applied
+ * through `ManualGeolocateControl#updatePosition`, so the control fires `geolocate` events
+ * whose `heading` and `speed` are computed from the current route segment. Playback pauses
+ * when the control is removed from its map.
+ *
+ * @example
+ * ```typescript
+ * const playback = new RoutePlayback(manualGeolocateControl, lineString, {
+ *   speed: 5,
+ *   loop: true,
+ * });
+ * playback.play();
+ * ```
+ */
+export class RoutePlayback {
+  private _control: ManualGeolocateControl;
+  private _keyframes: Keyframe[];
+  private _timeScale: number;
+  private _loop: boolean;
+
+  // Recorded timestamp of the first fix, when the fixes are replayed with their timing
+  private _startTimestamp?: number;
+
+  // Current playback position in route milliseconds
+  private _currentTime = 0;
+
+  // Animation frame state (only set while playing)
+  private _frameId?: number;
+  private _lastFrameTime?: number;
+
+  private _removeSubscription?: Subscription;
+
+  /**
+   * Creates a new RoutePlayback instance
+   * @param control - The control whose position is animated
+   * @param route - A GeoJSON LineString (or Feature wrapping one), or a list of position fixes
+   * @param options - Configuration options for the playback
+   */
+  constructor(
+    control: ManualGeolocateControl,
+    route:
+      | GeoJSON.LineString
+      | GeoJSON.Feature<GeoJSON.LineString>
+      | PositionFix[],
+    options: RoutePlaybackOptions = {},
+  ) {
+    this._control = control;
+    this._timeScale = options.timeScale ?? 1;
+    this._loop = options.loop ?? false;
+
+    let fixes: PositionFix[];
+    if (Array.isArray(route)) {
+      fixes = route;
+    } else {
+      const geometry = route.type === "Feature" ? route.geometry : route;
+      fixes = geometry.coordinates.map(([lng, lat, altitude]) => ({
+        position: [lng, lat],
+        altitude,
+      }));
+    }
+
+    this._keyframes = fixes.every((fix) => fix.timestamp !== undefined)
+      ? this._keyframesFromTimestamps(fixes)
+      : this._keyframesFromSpeed(fixes, options.speed ?? 1.4);
+
+    if (this._keyframes.length < 2) {
+      throw new Error("RoutePlayback: route must contain at least two points");
+    }
+
+    // Don't keep animating a control that is no longer on a map
+    this._removeSubscription = control.on("remove", () => this.pause());
+  }
+
+  /**
+   * Build keyframes for fixes walked at a constant speed
+   * @private
+   */
+  private _keyframesFromSpeed(fixes: PositionFix[], speed: number): Keyframe[] {
+    if (!(speed > 0)) {
+      throw new Error("RoutePlayback: speed must be greater than 0");
+    }
+
+    const keyframes: Keyframe[] = [];
+    let time = 0;
+    for (const fix of fixes) {
+      const lngLat = maplibregl.LngLat.convert(fix.position);
+      const previous = keyframes[keyframes.length - 1];
+      if (previous) {
+        time += (previous.lngLat.distanceTo(lngLat) / speed) * 1000;
+      }
+      keyframes.push({
+        lngLat,
+        time,
+        accuracy: fix.accuracy,
+        altitude: fix.altitude,
+      });
+    }
+    return keyframes;
+  }
+
+  /**
+   * Build keyframes from timestamped fixes, relative to the first timestamp
+   * @private
+   */
+  private _keyframesFromTimestamps(fixes: PositionFix[]): Keyframe[] {
+    const start = fixes[0]?.timestamp ?? 0;
+    this._startTimestamp = start;
+    return fixes.map((fix, index) => {
+      const timestamp = fix.timestamp!;
+      if (index > 0 && timestamp < fixes[index - 1].timestamp!) {
+        throw new Error("RoutePlayback: timestamps must be in ascending order");
+      }
+      return {
+        lngLat: maplibregl.LngLat.convert(fix.position),
+        time: timestamp - start,
+        accuracy: fix.accuracy,
+        altitude: fix.altitude,
+      };
+    });
+  }
+
+  /**
+   * Start or resume playback from the current time
+   */
+  play(): void {
+    if (this._frameId !== undefined) {
+      return;
+    }
+
+    if (this._currentTime >= this.getDuration()) {
+      this._currentTime = 0;
+    }
+
+    this._lastFrameTime = performance.now();
+    this._applyFrame();
+    this._frameId = requestAnimationFrame(this._onFrame);
+  }
+
+  /**
+   * Pause playback, keeping the current time
+   */
+  pause(): void {
+    if (this._frameId !== undefined) {
+      cancelAnimationFrame(this._frameId);
+    }
+    this._frameId = undefined;
+    this._lastFrameTime = undefined;
+  }
+
+  /**
+   * Stop playback and rewind to the start of the route
+   */
+  stop(): void {
+    this.pause();
+    this._currentTime = 0;
+  }
+
+  /**
+   * Jump to a point in time and move the position there immediately
+   * @param time - Milliseconds since the start of the route, clamped to the route duration
+   */
+  seek(time: number): void {
+    this._currentTime = Math.min(Math.max(time, 0), this.getDuration());
+    this._applyFrame();
+  }
+
+  /**
+   * Pause playback and stop following the control's removal from the map
+   */
+  destroy(): void {
+    this.pause();
+    this._removeSubscription?.unsubscribe();
+    this._removeSubscription = undefined;
+  }
+
+  /**
+   * Whether playback is currently running
+   */
+  isPlaying(): boolean {
+    return this._frameId !== undefined;
+  }
+
+  /**
+   * Get the current playback time in milliseconds since the start of the route
+   */
+  getCurrentTime(): number {
+    return this._currentTime;
+  }
+
+  /**
+   * Get the total duration of the route in milliseconds, before time scaling
+   */
+  getDuration(): number {
+    return this._keyframes[this._keyframes.length - 1].time;
+  }
+
+  /**
+   * Update the playback rate
+   * @param timeScale - Route milliseconds played per real millisecond
+   */
+  setTimeScale(timeScale: number): void {
+    this._timeScale = timeScale;
+  }
+
+  /**
+   * Advance playback by the time elapsed since the previous frame
+   * @private
+   */
+  private _onFrame = (now: number): void => {
+    const elapsed = (now - (this._lastFrameTime ?? now)) * this._timeScale;
+    this._lastFrameTime = now;
+
+    const duration = this.getDuration();
+    let time = this._currentTime + elapsed;
+    let finished = false;
+    if (time >= duration) {
+      if (this._loop && duration > 0) {
+        time %= duration;
+      } else {
+        time = duration;
+        finished = true;
+      }
+    }
+
+    this._currentTime = time;
+    this._applyFrame();
+
+    if (finished) {
+      this.pause();
+    } else {
+      this._frameId = requestAnimationFrame(this._onFrame);
+    }
+  };
+
+  /**
+   * Interpolate the position at the current time and apply it to the control
+   * @private
+   */
+  private _applyFrame(): void {
+    const index = this._findSegment(this._currentTime);
+    const from = this._keyframes[index];
+    const to = this._keyframes[index + 1];
+
+    const segmentDuration = to.time - from.time;
+    const t =
+      segmentDuration > 0
+        ? (this._currentTime - from.time) / segmentDuration
+        : 1;
+
+    // Take the short way across the antimeridian instead of sweeping around the globe
+    let deltaLng = to.lngLat.lng - from.lngLat.lng;
+    if (deltaLng > 180) {
+      deltaLng -= 360;
+    } else if (deltaLng < -180) {
+      deltaLng += 360;
+    }
+    const position = new maplibregl.LngLat(
+      from.lngLat.lng + deltaLng * t,
+      from.lngLat.lat + (to.lngLat.lat - from.lngLat.lat) * t,
+    ).wrap();
+
+    const distance = from.lngLat.distanceTo(to.lngLat);
+
+    this._control.updatePosition({
+      position,
+      accuracy: interpolate(from.accuracy, to.accuracy, t),
+      altitude: interpolate(from.altitude, to.altitude, t),
+      heading: distance > 0 ? bearing(from.lngLat, to.lngLat) : null,
+      speed: segmentDuration > 0 ? distance / (segmentDuration / 1000) : null,
+      timestamp:
+        this._startTimestamp === undefined
+          ? undefined
+          : this._startTimestamp + this._currentTime,
+      source: "playback",
+    });
+  }
+
+  /**
+   * Find the index of the segment that contains the given time
+   * @private
+   */
+  private _findSegment(time: number): number {
+    let low = 0;
+    let high = this._keyframes.length - 2;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this._keyframes[mid].time <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+}
+
+/**
+ * Initial bearing from one point to another in degrees clockwise from true north
+ * @private
+ */
+function bearing(from: maplibregl.LngLat, to: maplibregl.LngLat): number {
+  const toRadians = Math.PI / 180;
+  const lat1 = from.lat * toRadians;
+  const lat2 = to.lat * toRadians;
+  const deltaLng = (to.lng - from.lng) * toRadians;
+
+  const y = Math.sin(deltaLng) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLng);
+
+  return (Math.atan2(y, x) / toRadians + 360) % 360;
+}
+
+/**
+ * Linearly interpolate between two optional values, falling back to whichever is known
+ * @private
+ */
+function interpolate<T extends number | null | undefined>(
+  from: T,
+  to: T,
+  t: number,
+): T {
+  if (from == null || to == null) {
+    return (from ?? to) as T;
+  }
+  return (from + (to - from) * t) as T;
+}
@@ -0,0 +1,163 @@
+import type {
+  GeoJSONSource,
+  LayerSpecification,
+  LngLat,
+  Map,
+} from "maplibre-gl";
+import { addGeoJSONLayers } from "./styleLayers";
+import type { TrailOptions } from "./types";
+
+/**
+ * Draws past positions as a line or dots in a `geojson` source, fading out from the
+ * newest position to the oldest.
+ *
+ * Like `AccuracyLayer`, the source and layer are added again whenever a new style
+ * removes them, e.g. after `map.setStyle()`.
+ *
+ * @private
+ */
+export class TrailLayer {
+  private _map: Map;
+  private _id: string;
+  private _beforeId?: string;
+  private _style: "line" | "dots";
+  private _color: string;
+  private _width: number;
+  private _opacity: number;
+  private _data: GeoJSON.FeatureCollection = {
+    type: "FeatureCollection",
+    features: [],
+  };
+  private _onStyleDataHandler: () => void;
+
+  /**
+   * @param map - The map to draw on
+   * @param options - How to draw the trail. History limits are ignored.
+   */
+  constructor(map: Map, options: TrailOptions = {}) {
+    this._map = map;
+    this._id = options.layerId ?? "manual-geolocate-trail";
+    this._beforeId = options.beforeId;
+    this._style = options.style ?? "line";
+    this._color = options.color ?? "#1da1f2";
+    this._width = options.width ?? 3;
+    this._opacity = options.opacity ?? 0.8;
+
+    this._onStyleDataHandler = () => this._addToStyle();
+    this._map.on("styledata", this._onStyleDataHandler);
+    this._addToStyle();
+  }
+
+  /**
+   * Draw the trail through the given positions
+   * @param positions - Positions from oldest to newest
+   */
+  setPositions(positions: LngLat[]): void {
+    const features: GeoJSON.Feature[] = [];
+    const coordinates = positions.map(({ lng, lat }) => [lng, lat]);
+
+    if (this._style === "dots") {
+      coordinates.forEach((point, index) => {
+        features.push({
+          type: "Feature",
+          properties: {
+            opacity: (this._opacity * (index + 1)) / coordinates.length,
+          },
+          geometry: { type: "Point", coordinates: point },
+        });
+      });
+    } else {
+      // One feature per segment, as line-opacity can't vary along a single line
+      for (let index = 1; index < coordinates.length; index++) {
+        features.push({
+          type: "Feature",
+          properties: {
+            opacity: (this._opacity * index) / (coordinates.length - 1),
+          },
+          geometry: {
+            type: "LineString",
+            coordinates: [coordinates[index - 1], coordinates[index]],
+          },
+        });
+      }
+    }
+
+    this._data = { type: "FeatureCollection", features };
+    if (this._addToStyle()) {
+      this._map.getSource<GeoJSONSource>(this._id)?.setData(this._data);
+    }
+  }
+
+  /**
+   * Remove the trail, keeping the source and layer
+   */
+  clear(): void {
+    this.setPositions([]);
+  }
+
+  /**
+   * Remove the source and layer from the map
+   */
+  remove(): void {
+    this._map.off("styledata", this._onStyleDataHandler);
+    if (this._map.getLayer(this._layerId())) {
+      this._map.removeLayer(this._layerId());
+    }
+    if (this._map.getSource(this._id)) {
+      this._map.removeSource(this._id);
+    }
+  }
+
+  /**
+   * @private
+   */
+  private _layerId(): string {
+    return `${this._id}-${this._style}`;
+  }
+
+  /**
+   * Add the source and layer if the current style lacks them
+   * @private
+   * @returns Whether the source is part of the style
+   */
+  private _addToStyle(): boolean {
+    return addGeoJSONLayers(this._map, {
+      id: this._id,
+      data: () => this._data,
+      layers: () => [this._createLayer()],
+      beforeId: this._beforeId,
+    });
+  }
+
+  /**
+   * @private
+   */
+  private _createLayer(): LayerSpecification {
+    if (this._style === "dots") {
+      return {
+        id: this._layerId(),
+        type: "circle",
+        source: this._id,
+        paint: {
+          "circle-radius": this._width / 2,
+          "circle-color": this._color,
+          "circle-opacity": ["get", "opacity"],
+        },
+      };
+    }
+    return {
+      id: this._layerId(),
+      type: "line",
+      source: this._id,
+      layout: {
+        "line-cap": "round",
+        "line-join": "round",
+      },
+      paint: {
+        "line-color": this._color,
+        "line-width": this._width,
+        "line-opacity": ["get", "opacity"],
+      },
+    };
+  }
+}
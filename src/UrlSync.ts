@@ -0,0 +1,240 @@
+import type { UrlSyncOptions } from "./types";
+
+// Minimum milliseconds between URL updates, as browsers rate-limit history.replaceState()
+const THROTTLE_INTERVAL = 300;
+
+/**
+ * The values kept in the URL parameter
+ * @private
+ */
+export interface UrlLocation {
+  lng: number;
+  lat: number;
+  accuracy?: number;
+  heading?: number | null;
+}
+
+/**
+ * Reads and writes the manual position as a `lng,lat[,accuracy[,heading]]` parameter in
+ * the URL hash or query string, leaving every other parameter untouched.
+ *
+ * @private
+ */
+export class UrlSync {
+  private _parameter: string;
+  private _mode: "hash" | "query";
+
+  // Parameter value last read or written, to tell our own updates from the user's
+  private _lastValue?: string;
+
+  // Throttled writes
+  private _pending?: UrlLocation;
+  private _timer?: ReturnType<typeof setTimeout>;
+
+  private _onHashChangeHandler?: () => void;
+
+  constructor(options: UrlSyncOptions = {}) {
+    this._parameter = options.parameter ?? "loc";
+    this._mode = options.mode ?? "hash";
+  }
+
+  /**
+   * Read the location from the current URL
+   * @returns The location, or `null` if the parameter is missing or invalid
+   */
+  read(): UrlLocation | null {
+    if (typeof window === "undefined") {
+      return null;
+    }
+
+    const value = getParameter(this._getPart(), this._parameter);
+    if (value === undefined) {
+      return null;
+    }
+    this._lastValue = value;
+    return parseLocation(value);
+  }
+
+  /**
+   * Write the location to the URL, at most once every 300 milliseconds
+   * @param location - The location to write
+   */
+  write(location: UrlLocation): void {
+    this._pending = location;
+    if (this._timer !== undefined) {
+      return;
+    }
+
+    this._flush();
+    this._timer = setTimeout(() => {
+      this._timer = undefined;
+      if (this._pending) {
+        this.write(this._pending);
+      }
+    }, THROTTLE_INTERVAL);
+  }
+
+  /**
+   * Call a listener when the user edits the parameter in the hash
+   * @param listener - Called with the new location
+   */
+  listen(listener: (location: UrlLocation) => void): void {
+    if (typeof window === "undefined" || this._mode !== "hash") {
+      return;
+    }
+
+    this.unlisten();
+    this._onHashChangeHandler = () => {
+      const value = getParameter(this._getPart(), this._parameter);
+      if (value === undefined || value === this._lastValue) {
+        return;
+      }
+      this._lastValue = value;
+      const location = parseLocation(value);
+      if (location) {
+        listener(location);
+      }
+    };
+    window.addEventListener("hashchange", this._onHashChangeHandler);
+  }
+
+  /**
+   * Stop listening for hash changes
+   */
+  unlisten(): void {
+    if (this._onHashChangeHandler) {
+      window.removeEventListener("hashchange", this._onHashChangeHandler);
+      this._onHashChangeHandler = undefined;
+    }
+  }
+
+  /**
+   * Stop listening and drop a throttled write that has not happened yet
+   */
+  destroy(): void {
+    this.unlisten();
+    if (this._timer !== undefined) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+    this._pending = undefined;
+  }
+
+  /**
+   * Write the pending location to the URL
+   * @private
+   */
+  private _flush(): void {
+    const location = this._pending;
+    this._pending = undefined;
+    if (!location || typeof window === "undefined") {
+      return;
+    }
+
+    const value = formatLocation(location);
+    if (value === this._lastValue) {
+      return;
+    }
+    this._lastValue = value;
+
+    const url = new URL(window.location.href);
+    const part = setParameter(this._getPart(), this._parameter, value);
+    if (this._mode === "hash") {
+      url.hash = part;
+    } else {
+      url.search = part;
+    }
+    window.history.replaceState(window.history.state, "", url.href);
+  }
+
+  /**
+   * The hash or query string without its leading character
+   * @private
+   */
+  private _getPart(): string {
+    const { hash, search } = window.location;
+    return (this._mode === "hash" ? hash : search).slice(1);
+  }
+}
+
+/**
+ * Parse `lng,lat[,accuracy[,heading]]`
+ * @private
+ */
+function parseLocation(value: string): UrlLocation | null {
+  const [lng, lat, accuracy, heading] = value.split(",").map((part) =>
+    // Empty parts are missing values, not zero
+    part.trim() === "" ? Number.NaN : Number(part),
+  );
+  if (!Number.isFinite(lng) || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+    return null;
+  }
+
+  const location: UrlLocation = { lng, lat };
+  if (Number.isFinite(accuracy) && accuracy >= 0) {
+    location.accuracy = accuracy;
+  }
+  if (Number.isFinite(heading)) {
+    location.heading = heading;
+  }
+  return location;
+}
+
+/**
+ * Format a location as `lng,lat,accuracy[,heading]`, with about 10 cm precision
+ * @private
+ */
+function formatLocation({ lng, lat, accuracy, heading }: UrlLocation): string {
+  const parts = [round(lng, 6), round(lat, 6)];
+  if (accuracy !== undefined) {
+    parts.push(round(accuracy, 1));
+    if (heading != null && Number.isFinite(heading)) {
+      parts.push(round(heading, 1));
+    }
+  }
+  return parts.join(",");
+}
+
+/**
+ * @private
+ */
+function round(value: number, digits: number): string {
+  return String(Number(value.toFixed(digits)));
+}
+
+/**
+ * Find a `key=value` parameter in a `&`-separated string
+ * @private
+ * @returns The decoded value, or `undefined` if it is missing or malformed
+ */
+function getParameter(part: string, name: string): string | undefined {
+  for (const pair of part.split("&")) {
+    const index = pair.indexOf("=");
+    if (index !== -1 && pair.slice(0, index) === name) {
+      try {
+        return decodeURIComponent(pair.slice(index + 1));
+      } catch {
+        // A hand-edited link like `#loc=%E0%A4%A` is treated as absent
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Replace or append a `key=value` parameter in a `&`-separated string, keeping the
+ * other parameters and their order
+ * @private
+ */
+function setParameter(part: string, name: string, value: string): string {
+  const pairs = part.split("&").filter(Boolean);
+  const pair = `${name}=${value}`;
+  const index = pairs.findIndex((p) => p.startsWith(`${name}=`));
+  if (index === -1) {
+    pairs.push(pair);
+  } else {
+    pairs[index] = pair;
+  }
+  return pairs.join("&");
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { CoordinateParseError, parseCoordinates } from "./coordinateParser";
+
+function parse(text: string, order?: "latlng" | "lnglat") {
+  const { lngLat, ...rest } = parseCoordinates(text, { order });
+  return { lng: lngLat.lng, lat: lngLat.lat, ...rest };
+}
+
+function parseError(text: string): CoordinateParseError {
+  try {
+    parseCoordinates(text);
+  } catch (error) {
+    if (error instanceof CoordinateParseError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`Expected "${text}" to fail`);
+}
+
+describe("parseCoordinates", () => {
+  it("should parse decimal degrees with and without hemispheres", () => {
+    expect(parse("35.6812, 139.7671")).toEqual({
+      lng: 139.7671,
+      lat: 35.6812,
+      format: "decimal",
+      swapped: false,
+    });
+    expect(parse("-33.8568 151.2153")).toMatchObject({
+      lng: 151.2153,
+      lat: -33.8568,
+    });
+    expect(parse("33.8568S, 151.2153E")).toMatchObject({
+      lng: 151.2153,
+      lat: -33.8568,
+    });
+    // Hemispheres identify the axes in any order
+    expect(parse("W 0.1276 N 51.5072")).toMatchObject({
+      lng: -0.1276,
+      lat: 51.5072,
+    });
+  });
+
+  it("should parse degrees, minutes and seconds", () => {
+    const result = parse(`35°40'52.3"N 139°46'1.6"E`);
+    expect(result.format).toBe("dms");
+    expect(result.lat).toBeCloseTo(35.681194, 6);
+    expect(result.lng).toBeCloseTo(139.767111, 6);
+
+    expect(parse("N 35 40.8 E 139 41.4")).toMatchObject({
+      lat: 35.68,
+      lng: 139.69,
+    });
+    expect(parse("35°40′48″S, 139°41′24″W")).toMatchObject({
+      lat: -35.68,
+      lng: -139.69,
+    });
+  });
+
+  it("should detect swapped latitude and longitude", () => {
+    expect(parse("139.7671, 35.6812")).toMatchObject({
+      lng: 139.7671,
+      lat: 35.6812,
+      swapped: true,
+    });
+    expect(parse("139.7671, 35.6812", "lnglat")).toMatchObject({
+      lng: 139.7671,
+      swapped: false,
+    });
+  });
+
+  it("should parse geo: URIs with altitude and uncertainty", () => {
+    expect(parse("geo:35.6812,139.7671,40;crs=wgs84;u=25")).toEqual({
+      lng: 139.7671,
+      lat: 35.6812,
+      accuracy: 25,
+      altitude: 40,
+      format: "geo",
+      swapped: false,
+    });
+    expect(parse("geo:0,0?q=35.6812,139.7671(Tokyo Station)")).toMatchObject({
+      lng: 139.7671,
+      lat: 35.6812,
+    });
+    expect(parseError("geo:35.68,139.76;crs=epsg3857").code).toBe(
+      "INVALID_FORMAT",
+    );
+  });
+
+  it("should parse map-app share links", () => {
+    const links = [
+      "https://www.google.com/maps/place/Tokyo+Station/@35.6812,139.7671,17z/data=!3m1!4b1!4m6!3m5!8m2!3d35.6812!4d139.7671",
+      "https://www.google.com/maps/@35.6812,139.7671,15z",
+      "https://www.google.com/maps/search/?api=1&query=35.6812,139.7671",
+      "https://maps.apple.com/?q=Tokyo%20Station&ll=35.6812,139.7671",
+      "https://www.openstreetmap.org/?mlat=35.6812&mlon=139.7671#map=15/35.6812/139.7671",
+      "https://www.openstreetmap.org/#map=15/35.6812/139.7671",
+      "https://www.bing.com/maps?cp=35.6812~139.7671&lvl=15",
+    ];
+    for (const link of links) {
+      expect(parse(link)).toEqual({
+        lng: 139.7671,
+        lat: 35.6812,
+        format: "url",
+        swapped: false,
+      });
+    }
+
+    expect(parseError("https://example.com/").message).toBe(
+      "parseCoordinates: no coordinates found in URL",
+    );
+  });
+
+  it("should report typed errors", () => {
+    const invalid = parseError("Tokyo Station");
+    expect(invalid).toBeInstanceOf(CoordinateParseError);
+    expect(invalid.code).toBe("INVALID_FORMAT");
+    expect(invalid.input).toBe("Tokyo Station");
+
+    expect(parseError("35.68").code).toBe("INVALID_FORMAT");
+    expect(parseError("35.68N 139.69N").code).toBe("INVALID_FORMAT");
+    expect(parseError("135.68, 239.69").code).toBe("OUT_OF_RANGE");
+    expect(parseError(`35°70'N 139°41'E`).code).toBe("OUT_OF_RANGE");
+    expect(parseError("geo:95,10").code).toBe("OUT_OF_RANGE");
+  });
+});
@@ -0,0 +1,413 @@
+import maplibregl from "maplibre-gl";
+import type {
+  CoordinateParseErrorCode,
+  CoordinateParserOptions,
+  ParsedCoordinates,
+} from "./types";
+
+// Query parameters of map-app links holding a `lat,lng` pin, in order of preference
+const URL_PAIR_PARAMETERS = [
+  "q",
+  "query",
+  "ll",
+  "coordinate",
+  "destination",
+  "daddr",
+  "sll",
+];
+
+// Hemisphere letters standing alone, not as part of a word
+const HEMISPHERE_PATTERN = /(?<![A-Z])[NSEW](?![A-Z])/;
+
+// Degree, minute and second marks, which only separate numbers
+const MARK_PATTERN = /[°º˚'′’‘"″”“]/g;
+
+/**
+ * Error thrown for coordinate strings that can't be parsed or are out of range
+ */
+export class CoordinateParseError extends Error {
+  /**
+   * Why the input could not be parsed
+   */
+  readonly code: CoordinateParseErrorCode;
+
+  /**
+   * The input that could not be parsed
+   */
+  readonly input: string;
+
+  constructor(message: string, code: CoordinateParseErrorCode, input: string) {
+    super(`parseCoordinates: ${message}`);
+    this.name = "CoordinateParseError";
+    this.code = code;
+    this.input = input;
+  }
+}
+
+/**
+ * Parse coordinates pasted by a user.
+ *
+ * Accepts:
+ * - decimal degrees, with or without hemisphere letters: `35.68, 139.69`, `35.68N 139.69E`
+ * - degrees, minutes and seconds: `35°40'48"N 139°41'24"E`, `N 35 40.8 E 139 41.4`
+ * - RFC 5870 `geo:` URIs with altitude and the `u=` uncertainty: `geo:35.68,139.69;u=30`
+ * - map-app share links from Google Maps, Apple Maps, OpenStreetMap and Bing Maps
+ *
+ * Plain numbers are read as latitude then longitude unless `order` says otherwise.
+ * When they are only valid the other way around, they are swapped and `swapped` is set.
+ *
+ * @param text - The coordinate string
+ * @param options - Parser options
+ * @returns The parsed position
+ * @throws {CoordinateParseError} If the input is not recognized or out of range
+ *
+ * @example
+ * ```typescript
+ * const { lngLat, accuracy } = parseCoordinates("geo:35.6812,139.7671;u=25");
+ * ```
+ */
+export function parseCoordinates(
+  text: string,
+  options: CoordinateParserOptions = {},
+): ParsedCoordinates {
+  const input = text.trim();
+
+  if (/^geo:/i.test(input)) {
+    return parseGeoURI(input, text);
+  }
+  if (/^https?:\/\//i.test(input)) {
+    return parseMapLink(input, text);
+  }
+  return parsePlainText(input, text, options.order ?? "latlng");
+}
+
+/**
+ * Parse an RFC 5870 `geo:` URI, e.g. `geo:35.68,139.69,40;u=30`
+ * @private
+ */
+function parseGeoURI(input: string, text: string): ParsedCoordinates {
+  const [path, query] = input.slice(4).split("?");
+  const [coordinates, ...parameters] = path.split(";");
+  const [lat, lng, altitude] = coordinates.split(",").map(parseNumber);
+
+  let accuracy: number | undefined;
+  for (const parameter of parameters) {
+    const [name, value] = parameter.split("=");
+    const key = name.toLowerCase();
+    if (key === "crs" && value?.toLowerCase() !== "wgs84") {
+      throw new CoordinateParseError(
+        `unsupported geo: URI crs "${value}"`,
+        "INVALID_FORMAT",
+        text,
+      );
+    }
+    if (key === "u") {
+      accuracy = parseNumber(value);
+      if (!(accuracy >= 0)) {
+        throw new CoordinateParseError(
+          "invalid geo: URI uncertainty",
+          "INVALID_FORMAT",
+          text,
+        );
+      }
+    }
+  }
+
+  // Android shares places as geo:0,0?q=lat,lng(label)
+  const pin = query && parseLatLngPair(new URLSearchParams(query).get("q"));
+  if (pin && lat === 0 && lng === 0) {
+    return createResult(pin[0], pin[1], "geo", false, text, { accuracy });
+  }
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    throw new CoordinateParseError(
+      "invalid geo: URI coordinates",
+      "INVALID_FORMAT",
+      text,
+    );
+  }
+  return createResult(lat, lng, "geo", false, text, {
+    accuracy,
+    altitude: Number.isFinite(altitude) ? altitude : undefined,
+  });
+}
+
+/**
+ * Find the pin, or else the viewport center, of a map-app share link
+ * @private
+ */
+function parseMapLink(input: string, text: string): ParsedCoordinates {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new CoordinateParseError("invalid URL", "INVALID_FORMAT", text);
+  }
+  const { searchParams } = url;
+
+  // OpenStreetMap marker: ?mlat=35.68&mlon=139.69
+  const mlat = parseNumber(searchParams.get("mlat"));
+  const mlon = parseNumber(searchParams.get("mlon"));
+  if (Number.isFinite(mlat) && Number.isFinite(mlon)) {
+    return createResult(mlat, mlon, "url", false, text);
+  }
+
+  // Google Maps place data: !3d35.68!4d139.69
+  const place = url.pathname.match(/!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/);
+  if (place) {
+    return createResult(Number(place[1]), Number(place[2]), "url", false, text);
+  }
+
+  // Pins in the query string, skipping those holding a place name instead
+  for (const name of URL_PAIR_PARAMETERS) {
+    const pair = parseLatLngPair(searchParams.get(name));
+    if (pair) {
+      return createResult(pair[0], pair[1], "url", false, text);
+    }
+  }
+
+  // Bing Maps: ?cp=35.68~139.69
+  const cp = searchParams.get("cp")?.split("~").map(parseNumber);
+  if (cp && Number.isFinite(cp[0]) && Number.isFinite(cp[1])) {
+    return createResult(cp[0], cp[1], "url", false, text);
+  }
+
+  // Google Maps viewport: /@35.68,139.69,15z
+  const viewport = url.pathname.match(/@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/);
+  if (viewport) {
+    return createResult(
+      Number(viewport[1]),
+      Number(viewport[2]),
+      "url",
+      false,
+      text,
+    );
+  }
+
+  // OpenStreetMap viewport: #map=15/35.68/139.69
+  const hash = url.hash.match(/map=[\d.]+\/(-?[\d.]+)\/(-?[\d.]+)/);
+  if (hash) {
+    return createResult(Number(hash[1]), Number(hash[2]), "url", false, text);
+  }
+
+  throw new CoordinateParseError(
+    "no coordinates found in URL",
+    "INVALID_FORMAT",
+    text,
+  );
+}
+
+/**
+ * Parse decimal degrees or degrees, minutes and seconds, with optional hemispheres
+ * @private
+ */
+function parsePlainText(
+  input: string,
+  text: string,
+  order: "latlng" | "lnglat",
+): ParsedCoordinates {
+  const normalized = input.toUpperCase().replace(MARK_PATTERN, " ");
+  const tokens =
+    normalized.match(
+      /(?<![A-Z])[NSEW](?![A-Z])|[-+]?\d+(?:\.\d+)?|[,;/]|\s+/g,
+    ) ?? [];
+  if (tokens.join("") !== normalized || !/\d/.test(normalized)) {
+    throw new CoordinateParseError(
+      "unrecognized coordinate format",
+      "INVALID_FORMAT",
+      text,
+    );
+  }
+
+  const [first, second] = splitComponents(
+    tokens.filter((token) => token.trim() !== ""),
+    text,
+  );
+  const a = parseComponent(first, text);
+  const b = parseComponent(second, text);
+  const format = a.dms || b.dms ? "dms" : "decimal";
+
+  // Hemisphere letters tell the axes apart regardless of order
+  if (a.axis || b.axis) {
+    const axisA = a.axis ?? (b.axis === "lat" ? "lng" : "lat");
+    const axisB = b.axis ?? (axisA === "lat" ? "lng" : "lat");
+    if (axisA === axisB) {
+      throw new CoordinateParseError(
+        "both values are on the same axis",
+        "INVALID_FORMAT",
+        text,
+      );
+    }
+    const [lat, lng] =
+      axisA === "lat" ? [a.value, b.value] : [b.value, a.value];
+    return createResult(lat, lng, format, false, text);
+  }
+
+  let [lat, lng] = order === "latlng" ? [a.value, b.value] : [b.value, a.value];
+  let swapped = false;
+  if (Math.abs(lat) > 90 && Math.abs(lng) <= 90) {
+    [lat, lng] = [lng, lat];
+    swapped = true;
+  }
+  return createResult(lat, lng, format, swapped, text);
+}
+
+/**
+ * A latitude or longitude read from text
+ * @private
+ */
+interface Component {
+  value: number;
+  axis?: "lat" | "lng";
+  dms: boolean;
+}
+
+/**
+ * Split tokens into the two coordinates: at a separator, at a hemisphere letter, or
+ * into equal halves of plain numbers
+ * @private
+ */
+function splitComponents(tokens: string[], text: string): [string[], string[]] {
+  const separators = tokens.flatMap((token, index) =>
+    /^[,;/]$/.test(token) ? [index] : [],
+  );
+  if (separators.length > 1) {
+    throw new CoordinateParseError(
+      "too many separators",
+      "INVALID_FORMAT",
+      text,
+    );
+  }
+  if (separators.length === 1) {
+    return [tokens.slice(0, separators[0]), tokens.slice(separators[0] + 1)];
+  }
+
+  const letters = tokens.flatMap((token, index) =>
+    HEMISPHERE_PATTERN.test(token) ? [index] : [],
+  );
+  if (letters.length === 2) {
+    // Leading letters (N 35 E 139) start the second value, trailing ones (35 N 139 E) end the first
+    const at = letters[0] === 0 ? letters[1] : letters[0] + 1;
+    return [tokens.slice(0, at), tokens.slice(at)];
+  }
+
+  if (letters.length === 0 && tokens.length % 2 === 0) {
+    return [
+      tokens.slice(0, tokens.length / 2),
+      tokens.slice(tokens.length / 2),
+    ];
+  }
+
+  throw new CoordinateParseError(
+    "expected two coordinates",
+    "INVALID_FORMAT",
+    text,
+  );
+}
+
+/**
+ * Parse `[hemisphere] degrees [minutes [seconds]] [hemisphere]`
+ * @private
+ */
+function parseComponent(tokens: string[], text: string): Component {
+  const letters = tokens.filter((token) => HEMISPHERE_PATTERN.test(token));
+  const numbers = tokens.filter((token) => !HEMISPHERE_PATTERN.test(token));
+  if (letters.length > 1 || numbers.length === 0 || numbers.length > 3) {
+    throw new CoordinateParseError(
+      "unrecognized coordinate format",
+      "INVALID_FORMAT",
+      text,
+    );
+  }
+
+  const [degrees, minutes = 0, seconds = 0] = numbers.map(Number);
+  if (numbers.slice(1).some((number) => /^[-+]/.test(number))) {
+    throw new CoordinateParseError(
+      "only degrees may have a sign",
+      "INVALID_FORMAT",
+      text,
+    );
+  }
+  if (minutes >= 60 || seconds >= 60) {
+    throw new CoordinateParseError(
+      "minutes and seconds must be less than 60",
+      "OUT_OF_RANGE",
+      text,
+    );
+  }
+
+  const letter = letters[0];
+  const negative = numbers[0].startsWith("-");
+  if (negative && letter) {
+    throw new CoordinateParseError(
+      "a negative value can't have a hemisphere",
+      "INVALID_FORMAT",
+      text,
+    );
+  }
+
+  const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  return {
+    value:
+      negative || letter === "S" || letter === "W" ? -magnitude : magnitude,
+    axis: letter === "N" || letter === "S" ? "lat" : letter ? "lng" : undefined,
+    dms: numbers.length > 1,
+  };
+}
+
+/**
+ * Parse a `lat,lng` pair of decimal degrees
+ * @private
+ */
+function parseLatLngPair(
+  value: string | null | undefined,
+): [number, number] | null {
+  const match = value?.match(
+    /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*(?:\(.*\))?$/,
+  );
+  return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+/**
+ * @private
+ */
+function parseNumber(value: string | null | undefined): number {
+  return value == null || value.trim() === "" ? Number.NaN : Number(value);
+}
+
+/**
+ * Check the ranges and build the result
+ * @private
+ */
+function createResult(
+  lat: number,
+  lng: number,
+  format: ParsedCoordinates["format"],
+  swapped: boolean,
+  text: string,
+  extra: Pick<ParsedCoordinates, "accuracy" | "altitude"> = {},
+): ParsedCoordinates {
+  if (Math.abs(lat) > 90) {
+    throw new CoordinateParseError(
+      `latitude ${lat} is out of range`,
+      "OUT_OF_RANGE",
+      text,
+    );
+  }
+  if (Math.abs(lng) > 180) {
+    throw new CoordinateParseError(
+      `longitude ${lng} is out of range`,
+      "OUT_OF_RANGE",
+      text,
+    );
+  }
+
+  const result: ParsedCoordinates = {
+    lngLat: new maplibregl.LngLat(lng, lat),
+    format,
+    swapped,
+  };
+  if (extra.accuracy !== undefined) result.accuracy = extra.accuracy;
+  if (extra.altitude !== undefined) result.altitude = extra.altitude;
+  return result;
+}
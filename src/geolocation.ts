@@ -0,0 +1,99 @@
+import type {
+  ManualGeolocationCoordinates,
+  ManualGeolocationPosition,
+  UncertaintyEllipse,
+} from "./types";
+
+// Default messages of errors, by GeolocationPositionError code
+const ERROR_MESSAGES: Partial<Record<number, string>> = {
+  1: "User denied Geolocation",
+  2: "Position unavailable",
+  3: "Timeout expired",
+};
+
+/**
+ * Create a W3C-compliant GeolocationPosition object
+ * @param coordinates - The coordinate fields to report
+ * @param timestamp - Milliseconds since the Unix epoch
+ * @param uncertaintyEllipse - An uncertainty ellipse to attach to the position
+ * @returns A GeolocationPosition with `toJSON()` serializers, like the browser's
+ */
+export function createGeolocationPosition(
+  coordinates: ManualGeolocationCoordinates,
+  timestamp: number,
+  uncertaintyEllipse?: UncertaintyEllipse | null,
+): ManualGeolocationPosition {
+  const {
+    latitude,
+    longitude,
+    accuracy,
+    altitude,
+    altitudeAccuracy,
+    heading,
+    speed,
+  } = coordinates;
+
+  const coords = {
+    latitude,
+    longitude,
+    accuracy,
+    altitude,
+    altitudeAccuracy,
+    heading,
+    speed,
+    toJSON: () => ({
+      latitude,
+      longitude,
+      accuracy,
+      altitude,
+      altitudeAccuracy,
+      heading,
+      speed,
+    }),
+  } satisfies GeolocationCoordinates;
+
+  if (uncertaintyEllipse) {
+    const ellipse = { ...uncertaintyEllipse };
+    return {
+      coords,
+      timestamp,
+      uncertaintyEllipse: ellipse,
+      toJSON: () => ({
+        coords: coords.toJSON(),
+        timestamp,
+        uncertaintyEllipse: ellipse,
+      }),
+    } satisfies ManualGeolocationPosition;
+  }
+
+  const position = {
+    coords,
+    timestamp,
+    toJSON: () => ({
+      coords: coords.toJSON(),
+      timestamp,
+    }),
+  } satisfies GeolocationPosition;
+
+  return position;
+}
+
+/**
+ * Create a GeolocationPositionError object
+ * @param code - `1` (PERMISSION_DENIED), `2` (POSITION_UNAVAILABLE) or `3` (TIMEOUT)
+ * @param message - A human readable description of the error. Defaults to a generic
+ * message for the code.
+ * @returns A GeolocationPositionError with the standard code constants
+ */
+export function createGeolocationPositionError(
+  code: GeolocationPositionError["code"],
+  message = ERROR_MESSAGES[code] ?? "Unknown error",
+): GeolocationPositionError {
+  return {
+    code,
+    message,
+    PERMISSION_DENIED: 1,
+    POSITION_UNAVAILABLE: 2,
+    TIMEOUT: 3,
+  };
+}
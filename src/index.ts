@@ -1,3 +1,63 @@
 // Entry point for the library
+export { CoordinateParseError, parseCoordinates } from "./coordinateParser";
+export { createGeolocationPositionError } from "./geolocation";
 export { ManualGeolocateControl } from "./ManualGeolocateControl";
-export type { ManualGeolocateControlOptions } from "./types";
+export { ManualGeolocation } from "./ManualGeolocation";
+export { ManualPositionStore } from "./ManualPositionStore";
+export { ManualPositions } from "./ManualPositions";
+export { NMEAFeeder, NMEAParseError, parseNMEASentence } from "./nmea";
+export { PositionJitter } from "./PositionJitter";
+export { RoutePlayback } from "./RoutePlayback";
+export { MemoryStorage } from "./storage";
+export { parseGeoJSONTrack, parseGPX, parseKML } from "./trackParsers";
+export type {
+  CoordinatePanelOptions,
+  CoordinateParseErrorCode,
+  CoordinateParserOptions,
+  ManualGeolocateControlOptions,
+  ManualGeolocateDragEvent,
+  ManualGeolocateEvent,
+  ManualGeolocateEventListener,
+  ManualGeolocateEventMap,
+  ManualGeolocateEventSource,
+  ManualGeolocateEventType,
+  ManualGeolocateLabels,
+  ManualGeolocateLifecycleEvent,
+  ManualGeolocatePickEvent,
+  ManualGeolocatePresetEvent,
+  ManualGeolocateWatchState,
+  ManualGeolocationCoordinates,
+  ManualGeolocationOptions,
+  ManualGeolocationPosition,
+  ManualPositionClickEvent,
+  ManualPositionEntity,
+  ManualPositionEvent,
+  ManualPositionStoreOptions,
+  ManualPositionsEvent,
+  ManualPositionsEventListener,
+  ManualPositionsEventMap,
+  ManualPositionsEventType,
+  ManualPositionsOptions,
+  MarkerStyle,
+  NMEAFeederOptions,
+  NMEAGGASentence,
+  NMEAGSTSentence,
+  NMEARMCSentence,
+  NMEASentence,
+  NMEAVTGSentence,
+  ParsedCoordinates,
+  PersistenceOptions,
+  PositionFix,
+  PositionHistoryEntry,
+  PositionJitterOptions,
+  PositionPreset,
+  PositionRenderer,
+  PositionSource,
+  PositionStorage,
+  RoutePlaybackOptions,
+  SimulatedGeolocationError,
+  TrackParserOptions,
+  TrailOptions,
+  UncertaintyEllipse,
+  UrlSyncOptions,
+} from "./types";
@@ -0,0 +1,93 @@
+import type { Map } from "maplibre-gl";
+import type { ManualGeolocateLabels } from "./types";
+
+/**
+ * English text of the control, used when neither the `labels` option nor the map's
+ * `locale` option sets a label
+ */
+export const DEFAULT_LABELS: Readonly<ManualGeolocateLabels> = {
+  findMyLocation: "Find my location",
+  locationNotAvailable: "Location not available",
+  positionFound: "Location found: {lat}, {lng}, accuracy {accuracy} m",
+  outOfMaxBounds: "Location is outside the map bounds",
+  draggablePosition: "Location. Drag or use the arrow keys to move it",
+  openPanel: "Enter coordinates",
+  panel: "Manual position",
+  coordinates: "Coordinates or link",
+  invalidCoordinates: "Unrecognized coordinates",
+  coordinatesOutOfRange: "Coordinates out of range",
+  accuracy: "Accuracy",
+  accuracyValue: "{accuracy} m",
+  showAccuracyCircle: "Show accuracy circle",
+  go: "Go",
+  presets: "Presets",
+  noPresets: "No presets",
+  saveCurrentPosition: "Save current position",
+};
+
+// Labels shared with the native GeolocateControl, so existing translations apply
+const NATIVE_LOCALE_KEYS: Partial<Record<keyof ManualGeolocateLabels, string>> =
+  {
+    findMyLocation: "GeolocateControl.FindMyLocation",
+    locationNotAvailable: "GeolocateControl.LocationNotAvailable",
+  };
+
+/**
+ * Combine the `labels` option, the map's `locale` option and the English defaults,
+ * in that order of precedence
+ * @param map - The map whose locale is used, if any
+ * @param labels - Labels given to the control
+ * @private
+ */
+export function resolveLabels(
+  map: Map | undefined,
+  labels: Partial<ManualGeolocateLabels>,
+): ManualGeolocateLabels {
+  const resolved = { ...DEFAULT_LABELS };
+  for (const name of Object.keys(resolved) as Array<
+    keyof ManualGeolocateLabels
+  >) {
+    const nativeKey = NATIVE_LOCALE_KEYS[name];
+    resolved[name] =
+      labels[name] ??
+      getMapLocaleString(
+        map,
+        `ManualGeolocateControl.${name[0].toUpperCase()}${name.slice(1)}`,
+      ) ??
+      (nativeKey && getMapLocaleString(map, nativeKey)) ??
+      resolved[name];
+  }
+  return resolved;
+}
+
+/**
+ * Replace `{name}` placeholders in a label
+ * @private
+ */
+export function formatLabel(
+  label: string,
+  values: Record<string, string | number>,
+): string {
+  return label.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder,
+  );
+}
+
+/**
+ * Read a label from the map's `locale` option
+ * @private
+ */
+function getMapLocaleString(
+  map: Map | undefined,
+  key: string,
+): string | undefined {
+  if (typeof map?._getUIString !== "function") {
+    return undefined;
+  }
+  try {
+    // Throws for keys missing from the locale, which custom keys are by default
+    return map._getUIString(key as Parameters<Map["_getUIString"]>[0]);
+  } catch {
+    return undefined;
+  }
+}
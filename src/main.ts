@@ -118,6 +118,17 @@ const manualGeolocateControl = new ManualGeolocateControl({
   position: { lng: 141.345661, lat: 43.05907 }, // Sapporo
   accuracy: DEFAULT_ACCURACY,
   showAccuracyCircle: true,
+  draggable: true,
+  enablePositionPick: true,
+  trail: { maxPoints: 50 },
+  panel: true,
+  presets: POSITION_PRESETS.map(({ id, label, lng, lat, accuracy }) => ({
+    id,
+    label,
+    position: [lng, lat],
+    accuracy,
+  })),
+  savedPlaces: true,
 });
 manualGeolocateControl.setFitBoundsOptions(currentFitBoundsOptions);
 
@@ -138,6 +149,21 @@ manualGeolocateControl.on("geolocate", (e) => {
   );
 });
 
+// Keep the form in sync when the dot is dragged
+manualGeolocateControl.on("dragend", ({ lngLat }) => {
+  fillInputs(lngLat);
+  appendConsoleMessage(
+    `dragend → lng: ${lngLat.lng.toFixed(5)}, lat: ${lngLat.lat.toFixed(5)}`,
+  );
+});
+
+manualGeolocateControl.on("positionpick", ({ lngLat }) => {
+  fillInputs(lngLat);
+  appendConsoleMessage(
+    `positionpick → lng: ${lngLat.lng.toFixed(5)}, lat: ${lngLat.lat.toFixed(5)}`,
+  );
+});
+
 // Log when map is loaded
 map.on("load", () => {
   console.log("Map loaded! ManualGeolocateControl is in the top-right corner.");
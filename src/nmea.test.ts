@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ManualGeolocateControl } from "./ManualGeolocateControl";
+import { NMEAFeeder, NMEAParseError, parseNMEASentence } from "./nmea";
+import type { PositionFix } from "./types";
+
+// Build a sentence with a valid checksum from its body (without `$` and `*hh`)
+function sentence(body: string): string {
+  let checksum = 0;
+  for (const char of body) {
+    checksum ^= char.charCodeAt(0);
+  }
+  return `$${body}*${checksum.toString(16).toUpperCase().padStart(2, "0")}`;
+}
+
+function createControlStub() {
+  const updatePosition = vi.fn<(fix: PositionFix) => void>();
+  const control = { updatePosition } as unknown as ManualGeolocateControl;
+  return { control, updatePosition };
+}
+
+describe("parseNMEASentence", () => {
+  it("should parse GGA with position, quality, HDOP and altitude", () => {
+    const gga = parseNMEASentence(
+      "$GPGGA,123519,4807.038,N,01131.000,E,1,08,0.9,545.4,M,46.9,M,,*47",
+    );
+
+    expect(gga).toMatchObject({
+      type: "GGA",
+      talker: "GP",
+      time: (12 * 3600 + 35 * 60 + 19) * 1000,
+      quality: 1,
+      satellites: 8,
+      hdop: 0.9,
+      altitude: 545.4,
+      geoidSeparation: 46.9,
+    });
+    expect(gga?.type === "GGA" && gga.latitude).toBeCloseTo(48.1173, 4);
+    expect(gga?.type === "GGA" && gga.longitude).toBeCloseTo(11.5167, 4);
+  });
+
+  it("should parse RMC speed in meters per second and southern/western hemispheres", () => {
+    const rmc = parseNMEASentence(
+      sentence("GNRMC,081836,A,3751.65,S,14507.36,W,10.0,360.0,130998,,"),
+    );
+
+    expect(rmc).toMatchObject({
+      type: "RMC",
+      talker: "GN",
+      valid: true,
+      course: 360,
+      date: Date.UTC(1998, 8, 13),
+    });
+    expect(rmc?.type === "RMC" && rmc.latitude).toBeCloseTo(-37.8608, 4);
+    expect(rmc?.type === "RMC" && rmc.longitude).toBeCloseTo(-145.1227, 4);
+    expect(rmc?.type === "RMC" && rmc.speed).toBeCloseTo(5.144, 3);
+  });
+
+  it("should parse VTG and GST", () => {
+    expect(
+      parseNMEASentence(sentence("GPVTG,054.7,T,034.4,M,005.5,N,010.2,K")),
+    ).toMatchObject({ type: "VTG", course: 54.7, speed: 10.2 / 3.6 });
+
+    expect(
+      parseNMEASentence(sentence("GPGST,123519,0.5,1.2,0.8,45.0,1.5,2.0,3.0")),
+    ).toMatchObject({
+      type: "GST",
+      semiMajorError: 1.2,
+      semiMinorError: 0.8,
+      orientation: 45.0,
+      latitudeError: 1.5,
+      longitudeError: 2.0,
+      altitudeError: 3.0,
+    });
+  });
+
+  it("should return null for unsupported and proprietary sentences", () => {
+    expect(parseNMEASentence(sentence("GPGSV,1,1,00"))).toBeNull();
+    expect(parseNMEASentence(sentence("PUBX,00,081350.00"))).toBeNull();
+    expect(parseNMEASentence("$PGRMZ,246,f,3")).toBeNull();
+  });
+
+  it("should reject malformed sentences and bad checksums", () => {
+    expect(() => parseNMEASentence("GPGGA,123519")).toThrow(NMEAParseError);
+    expect(() =>
+      parseNMEASentence(
+        "$GPGGA,123519,4807.038,N,01131.000,E,1,08,0.9,545.4,M,46.9,M,,*48",
+      ),
+    ).toThrow("checksum mismatch");
+    expect(() =>
+      parseNMEASentence(sentence("GPGGA,123519,9107.038,N,01131.000,E,1")),
+    ).toThrow(NMEAParseError);
+  });
+});
+
+describe("NMEAFeeder", () => {
+  it("should combine an epoch of sentences into a single fix", () => {
+    const { control, updatePosition } = createControlStub();
+    const feeder = new NMEAFeeder(control);
+
+    feeder.push(
+      [
+        sentence("GPRMC,120000,A,3536.000,N,13942.000,E,1.0,90.0,010524,,"),
+        sentence(
+          "GPGGA,120000,3536.000,N,13942.000,E,1,10,1.0,30.0,M,40.0,M,,",
+        ),
+        sentence("GPGST,120000,1.0,1.0,1.0,0.0,3.0,4.0,2.5"),
+        // Next epoch completes the first one
+        sentence(
+          "GPGGA,120001,3536.001,N,13942.000,E,1,10,1.0,30.0,M,40.0,M,,",
+        ),
+        "",
+      ].join("\r\n"),
+    );
+
+    expect(updatePosition).toHaveBeenCalledTimes(1);
+    const fix = updatePosition.mock.calls[0][0];
+    expect(fix.position).toEqual([139.7, 35.6]);
+    expect(fix.accuracy).toBeCloseTo(10); // 2 * hypot(3, 4)
+    expect(fix.uncertaintyEllipse).toEqual({
+      semiMajor: 2,
+      semiMinor: 2,
+      orientation: 0,
+    });
+    expect(fix.altitude).toBeCloseTo(70);
+    expect(fix.altitudeAccuracy).toBeCloseTo(5);
+    expect(fix.heading).toBe(90);
+    expect(fix.speed).toBeCloseTo(0.514, 3);
+    expect(fix.timestamp).toBe(Date.UTC(2024, 4, 1, 12, 0, 0));
+
+    feeder.flush();
+    expect(updatePosition).toHaveBeenCalledTimes(2);
+    const second = updatePosition.mock.calls[1][0];
+    // Without GST, accuracy falls back to HDOP * dopScale
+    expect(second.accuracy).toBeCloseTo(5);
+    // GGA-only epochs reuse the last RMC date
+    expect(second.timestamp).toBe(Date.UTC(2024, 4, 1, 12, 0, 1));
+  });
+
+  it("should buffer partial lines and skip invalid fixes", () => {
+    const { control, updatePosition } = createControlStub();
+    const feeder = new NMEAFeeder(control);
+    const gga = sentence("GPGGA,120000,3536.000,N,13942.000,E,0,00,,,M,,M,,");
+
+    feeder.push(gga.slice(0, 10));
+    feeder.push(`${gga.slice(10)}\n`);
+    feeder.flush();
+
+    // Fix quality 0 means no position
+    expect(updatePosition).not.toHaveBeenCalled();
+  });
+
+  it("should report malformed sentences through onError", () => {
+    const { control, updatePosition } = createControlStub();
+    const onError = vi.fn();
+    const feeder = new NMEAFeeder(control, { onError });
+
+    feeder.push("$GPGGA,garbage*00\n");
+    feeder.push(
+      `${sentence("GPRMC,120000,A,3536.000,N,13942.000,E,0.0,,010524,,")}\n`,
+    );
+    feeder.flush();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(NMEAParseError);
+    expect(onError.mock.calls[0][0].sentence).toBe("$GPGGA,garbage*00");
+    expect(updatePosition).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip malformed sentences quietly without onError", () => {
+    const { control, updatePosition } = createControlStub();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const feeder = new NMEAFeeder(control);
+
+    feeder.push("$GPGGA,garbage*00\n");
+    feeder.push(`${sentence("PUBX,00,120000.00")}\n`);
+    feeder.flush();
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(updatePosition).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,487 @@
+import type { ManualGeolocateControl } from "./ManualGeolocateControl";
+import { DEFAULT_DOP_SCALE } from "./trackParsers";
+import type {
+  NMEAFeederOptions,
+  NMEAGGASentence,
+  NMEAGSTSentence,
+  NMEARMCSentence,
+  NMEASentence,
+  NMEAVTGSentence,
+  PositionFix,
+} from "./types";
+
+const KNOTS_TO_METERS_PER_SECOND = 1852 / 3600;
+
+/**
+ * Error thrown for NMEA sentences that are malformed or fail checksum validation
+ */
+export class NMEAParseError extends Error {
+  /**
+   * The sentence that could not be parsed
+   */
+  readonly sentence: string;
+
+  constructor(message: string, sentence: string) {
+    super(`NMEA: ${message}`);
+    this.name = "NMEAParseError";
+    this.sentence = sentence;
+  }
+}
+
+/**
+ * Parse a single NMEA 0183 sentence.
+ *
+ * `GGA`, `RMC`, `VTG` and `GST` sentences from any talker (`$GP`, `$GN`, `$GL`, ...)
+ * are supported. Speeds are converted to meters per second.
+ *
+ * @param sentence - The sentence, including the leading `$` and the `*hh` checksum
+ * @returns The parsed sentence, or `null` for valid sentences of an unsupported type
+ * and for proprietary `$P` sentences
+ * @throws {NMEAParseError} If the sentence is malformed or its checksum doesn't match
+ *
+ * @example
+ * ```typescript
+ * const gga = parseNMEASentence(
+ *   "$GPGGA,123519,4807.038,N,01131.000,E,1,08,0.9,545.4,M,46.9,M,,*47",
+ * );
+ * ```
+ */
+export function parseNMEASentence(sentence: string): NMEASentence | null {
+  const trimmed = sentence.trim();
+
+  // Proprietary sentences, such as u-blox `$PUBX`, follow their own vendor's format
+  if (trimmed.startsWith("$P")) {
+    return null;
+  }
+
+  const match = /^\$([A-Z0-9]{2})([A-Z]{3}),(.*)\*([0-9A-Fa-f]{2})$/.exec(
+    trimmed,
+  );
+  if (!match) {
+    throw new NMEAParseError("malformed sentence", trimmed);
+  }
+
+  const [, talker, type, body, checksum] = match;
+  if (computeChecksum(`${talker}${type},${body}`) !== parseInt(checksum, 16)) {
+    throw new NMEAParseError("checksum mismatch", trimmed);
+  }
+
+  const fields = body.split(",");
+  switch (type) {
+    case "GGA":
+      return parseGGA(talker, fields, trimmed);
+    case "RMC":
+      return parseRMC(talker, fields, trimmed);
+    case "VTG":
+      return parseVTG(talker, fields, trimmed);
+    case "GST":
+      return parseGST(talker, fields, trimmed);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Feeds NMEA 0183 data into a ManualGeolocateControl.
+ *
+ * Sentences are grouped into epochs by their UTC time. When an epoch is complete, its
+ * `GGA`/`RMC` fix is combined with `VTG` course and speed and `GST` error estimates and
+ * applied through `ManualGeolocateControl#updatePosition`. Accuracy comes from `GST`
+ * when available, otherwise from HDOP multiplied by `dopScale`, and a `GST` error
+ * ellipse becomes the uncertainty ellipse. Malformed sentences are skipped and reported
+ * through `onError`, if given.
+ *
+ * @example
+ * ```typescript
+ * const feeder = new NMEAFeeder(manualGeolocateControl, {
+ *   onError: (error) => console.warn(error.message, error.sentence),
+ * });
+ * feeder.push(log);
+ * feeder.flush();
+ * ```
+ */
+export class NMEAFeeder {
+  private _control: ManualGeolocateControl;
+  private _dopScale: number;
+  private _onError: (error: NMEAParseError) => void;
+
+  // Incomplete trailing line from the previous push()
+  private _buffer = "";
+
+  // Sentences of the epoch currently being collected
+  private _epochTime: number | null = null;
+  private _gga?: NMEAGGASentence;
+  private _rmc?: NMEARMCSentence;
+  private _vtg?: NMEAVTGSentence;
+  private _gst?: NMEAGSTSentence;
+
+  // Last UTC date seen in an RMC sentence, used to date GGA-only epochs
+  private _lastDate: number | null = null;
+
+  /**
+   * Creates a new NMEAFeeder instance
+   * @param control - The control that receives the fixes
+   * @param options - Configuration options for the feeder
+   */
+  constructor(
+    control: ManualGeolocateControl,
+    options: NMEAFeederOptions = {},
+  ) {
+    this._control = control;
+    this._dopScale = options.dopScale ?? DEFAULT_DOP_SCALE;
+    this._onError = options.onError ?? (() => {});
+  }
+
+  /**
+   * Push raw NMEA data. Lines may be split across calls, as when reading a serial stream.
+   * @param data - One or more newline-separated sentences
+   */
+  push(data: string): void {
+    const lines = (this._buffer + data).split(/\r?\n/);
+    this._buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      this._pushLine(line);
+    }
+  }
+
+  /**
+   * Process any buffered partial line and apply the pending epoch
+   */
+  flush(): void {
+    const line = this._buffer;
+    this._buffer = "";
+    this._pushLine(line);
+    this._emitEpoch();
+  }
+
+  /**
+   * Parse a single line and add it to the current epoch
+   * @private
+   */
+  private _pushLine(line: string): void {
+    if (line.trim() === "") {
+      return;
+    }
+
+    let sentence: NMEASentence | null;
+    try {
+      sentence = parseNMEASentence(line);
+    } catch (error) {
+      if (error instanceof NMEAParseError) {
+        this._onError(error);
+        return;
+      }
+      throw error;
+    }
+
+    if (!sentence) {
+      return;
+    }
+
+    if (sentence.type !== "VTG" && sentence.time !== null) {
+      if (this._epochTime !== null && sentence.time !== this._epochTime) {
+        this._emitEpoch();
+      }
+      this._epochTime = sentence.time;
+    }
+
+    switch (sentence.type) {
+      case "GGA":
+        this._gga = sentence;
+        break;
+      case "RMC":
+        this._rmc = sentence;
+        if (sentence.date !== null) {
+          this._lastDate = sentence.date;
+        }
+        break;
+      case "VTG":
+        this._vtg = sentence;
+        break;
+      case "GST":
+        this._gst = sentence;
+        break;
+    }
+  }
+
+  /**
+   * Combine the sentences of the current epoch into a fix and apply it
+   * @private
+   */
+  private _emitEpoch(): void {
+    const fix = this._createFix();
+
+    this._epochTime = null;
+    this._gga = undefined;
+    this._rmc = undefined;
+    this._vtg = undefined;
+    this._gst = undefined;
+
+    if (fix) {
+      this._control.updatePosition({ ...fix, source: "nmea" });
+    }
+  }
+
+  /**
+   * @private
+   */
+  private _createFix(): PositionFix | null {
+    const gga = this._gga;
+    const rmc = this._rmc;
+    const gst = this._gst;
+
+    let position: [number, number] | undefined;
+    if (gga && gga.quality > 0 && gga.latitude !== null) {
+      position = [gga.longitude!, gga.latitude];
+    } else if (rmc?.valid && rmc.latitude !== null) {
+      position = [rmc.longitude!, rmc.latitude];
+    }
+    if (!position) {
+      return null;
+    }
+
+    const fix: PositionFix = { position };
+
+    // Report 2DRMS (roughly 95% confidence) to match the W3C accuracy semantics
+    if (gst?.latitudeError != null && gst.longitudeError != null) {
+      fix.accuracy = 2 * Math.hypot(gst.latitudeError, gst.longitudeError);
+    } else if (gga?.hdop != null) {
+      fix.accuracy = gga.hdop * this._dopScale;
+    }
+    if (gst?.semiMajorError != null && gst.semiMinorError != null) {
+      // Scaled by two like the accuracy, so both describe the same confidence
+      fix.uncertaintyEllipse = {
+        semiMajor: 2 * gst.semiMajorError,
+        semiMinor: 2 * gst.semiMinorError,
+        orientation: gst.orientation ?? 0,
+      };
+    }
+
+    if (gga?.altitude != null) {
+      // GGA reports altitude above mean sea level; W3C uses the WGS84 ellipsoid
+      fix.altitude = gga.altitude + (gga.geoidSeparation ?? 0);
+    }
+    if (gst?.altitudeError != null) {
+      fix.altitudeAccuracy = 2 * gst.altitudeError;
+    }
+
+    fix.heading = rmc?.course ?? this._vtg?.course ?? null;
+    fix.speed = rmc?.speed ?? this._vtg?.speed ?? null;
+
+    if (this._epochTime !== null) {
+      const today = new Date();
+      const date =
+        rmc?.date ??
+        this._lastDate ??
+        Date.UTC(
+          today.getUTCFullYear(),
+          today.getUTCMonth(),
+          today.getUTCDate(),
+        );
+      fix.timestamp = date + this._epochTime;
+    }
+
+    return fix;
+  }
+}
+
+/**
+ * XOR of all characters between `$` and `*`
+ * @private
+ */
+function computeChecksum(content: string): number {
+  let checksum = 0;
+  for (let i = 0; i < content.length; i++) {
+    checksum ^= content.charCodeAt(i);
+  }
+  return checksum;
+}
+
+/**
+ * @private
+ */
+function requireFields(fields: string[], count: number, sentence: string) {
+  if (fields.length < count) {
+    throw new NMEAParseError(
+      `expected at least ${count} fields, got ${fields.length}`,
+      sentence,
+    );
+  }
+}
+
+/**
+ * Parse an optional numeric field
+ * @private
+ */
+function parseNumber(value: string, sentence: string): number | null {
+  if (value === "") {
+    return null;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new NMEAParseError(`invalid number "${value}"`, sentence);
+  }
+  return number;
+}
+
+/**
+ * Parse a `hhmmss.ss` field into milliseconds since UTC midnight
+ * @private
+ */
+function parseTime(value: string, sentence: string): number | null {
+  if (value === "") {
+    return null;
+  }
+  const match = /^(\d{2})(\d{2})(\d{2}(?:\.\d+)?)$/.exec(value);
+  if (!match) {
+    throw new NMEAParseError(`invalid time "${value}"`, sentence);
+  }
+  const [, hours, minutes, seconds] = match;
+  return Math.round(
+    ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000,
+  );
+}
+
+/**
+ * Parse a `ddmmyy` field into the epoch milliseconds of that UTC midnight
+ * @private
+ */
+function parseDate(value: string, sentence: string): number | null {
+  if (value === "") {
+    return null;
+  }
+  const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) {
+    throw new NMEAParseError(`invalid date "${value}"`, sentence);
+  }
+  const [, day, month, year] = match.map(Number);
+  return Date.UTC(year < 80 ? 2000 + year : 1900 + year, month - 1, day);
+}
+
+/**
+ * Parse a `(d)ddmm.mmmm` field with its hemisphere into decimal degrees
+ * @private
+ */
+function parseCoordinate(
+  value: string,
+  hemisphere: string,
+  axis: "latitude" | "longitude",
+  sentence: string,
+): number | null {
+  if (value === "" && hemisphere === "") {
+    return null;
+  }
+
+  const degreeDigits = axis === "latitude" ? 2 : 3;
+  const positive = axis === "latitude" ? "N" : "E";
+  const negative = axis === "latitude" ? "S" : "W";
+  const match = new RegExp(`^(\\d{${degreeDigits}})(\\d{2}(?:\\.\\d+)?)$`).exec(
+    value,
+  );
+  if (!match || (hemisphere !== positive && hemisphere !== negative)) {
+    throw new NMEAParseError(
+      `invalid ${axis} "${value},${hemisphere}"`,
+      sentence,
+    );
+  }
+
+  const degrees = Number(match[1]) + Number(match[2]) / 60;
+  const limit = axis === "latitude" ? 90 : 180;
+  if (degrees > limit) {
+    throw new NMEAParseError(`${axis} out of range "${value}"`, sentence);
+  }
+  return hemisphere === negative ? -degrees : degrees;
+}
+
+/**
+ * @private
+ */
+function parseGGA(
+  talker: string,
+  fields: string[],
+  sentence: string,
+): NMEAGGASentence {
+  requireFields(fields, 11, sentence);
+  return {
+    type: "GGA",
+    talker,
+    time: parseTime(fields[0], sentence),
+    latitude: parseCoordinate(fields[1], fields[2], "latitude", sentence),
+    longitude: parseCoordinate(fields[3], fields[4], "longitude", sentence),
+    quality: parseNumber(fields[5], sentence) ?? 0,
+    satellites: parseNumber(fields[6], sentence),
+    hdop: parseNumber(fields[7], sentence),
+    altitude: parseNumber(fields[8], sentence),
+    geoidSeparation: parseNumber(fields[10], sentence),
+  };
+}
+
+/**
+ * @private
+ */
+function parseRMC(
+  talker: string,
+  fields: string[],
+  sentence: string,
+): NMEARMCSentence {
+  requireFields(fields, 9, sentence);
+  const knots = parseNumber(fields[6], sentence);
+  return {
+    type: "RMC",
+    talker,
+    time: parseTime(fields[0], sentence),
+    valid: fields[1] === "A",
+    latitude: parseCoordinate(fields[2], fields[3], "latitude", sentence),
+    longitude: parseCoordinate(fields[4], fields[5], "longitude", sentence),
+    speed: knots === null ? null : knots * KNOTS_TO_METERS_PER_SECOND,
+    course: parseNumber(fields[7], sentence),
+    date: parseDate(fields[8], sentence),
+  };
+}
+
+/**
+ * @private
+ */
+function parseVTG(
+  talker: string,
+  fields: string[],
+  sentence: string,
+): NMEAVTGSentence {
+  requireFields(fields, 8, sentence);
+  const knots = parseNumber(fields[4], sentence);
+  const kilometersPerHour = parseNumber(fields[6], sentence);
+  return {
+    type: "VTG",
+    talker,
+    course: parseNumber(fields[0], sentence),
+    speed:
+      kilometersPerHour !== null
+        ? kilometersPerHour / 3.6
+        : knots !== null
+          ? knots * KNOTS_TO_METERS_PER_SECOND
+          : null,
+  };
+}
+
+/**
+ * @private
+ */
+function parseGST(
+  talker: string,
+  fields: string[],
+  sentence: string,
+): NMEAGSTSentence {
+  requireFields(fields, 8, sentence);
+  return {
+    type: "GST",
+    talker,
+    time: parseTime(fields[0], sentence),
+    semiMajorError: parseNumber(fields[2], sentence),
+    semiMinorError: parseNumber(fields[3], sentence),
+    orientation: parseNumber(fields[4], sentence),
+    latitudeError: parseNumber(fields[5], sentence),
+    longitudeError: parseNumber(fields[6], sentence),
+    altitudeError: parseNumber(fields[7], sentence),
+  };
+}
@@ -0,0 +1,249 @@
+import maplibregl from "maplibre-gl";
+import type { PositionPreset, PositionStorage } from "./types";
+
+// Prefix of every key written by the control, so they don't collide with the app's own
+const KEY_PREFIX = "maplibre-gl-manual-geolocate:";
+
+/**
+ * The state saved by the `persistence` option
+ * @private
+ */
+export interface PersistedState {
+  position: [number, number];
+  accuracy: number;
+  showAccuracyCircle: boolean;
+}
+
+/**
+ * A `PositionStorage` that keeps values in memory, e.g. to test persistence without
+ * touching `localStorage`
+ *
+ * @example
+ * ```typescript
+ * const storage = new MemoryStorage();
+ * new ManualGeolocateControl({ position, persistence: { storage } });
+ * ```
+ */
+export class MemoryStorage implements PositionStorage {
+  private _items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this._items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this._items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this._items.delete(key);
+  }
+
+  /**
+   * Remove all values
+   */
+  clear(): void {
+    this._items.clear();
+  }
+}
+
+/**
+ * Reads and writes the control's state under a namespaced key. Storage failures, such as
+ * a full quota or storage disabled by the browser, are ignored.
+ *
+ * With an interval, saves are throttled like URL updates: the first one is written right
+ * away and later ones at most once per interval, the latest state winning. A pending
+ * state is written when the page is hidden, so a reload doesn't lose it.
+ *
+ * @private
+ */
+export class StatePersistence<T = PersistedState> {
+  private _storage?: PositionStorage;
+  private _key: string;
+  private _validate: (value: unknown) => T | null;
+  private _interval: number;
+
+  // Throttled writes
+  private _pending?: T;
+  private _timer?: ReturnType<typeof setTimeout>;
+  private _onPageHideHandler = () => this.flush();
+
+  /**
+   * @param storage - Where the state is saved, or `undefined` for `localStorage`
+   * @param key - Name of the state, without the namespace
+   * @param validate - Checks a parsed state, returning `null` when it is invalid
+   * @param interval - Minimum milliseconds between writes, or `0` to write every save
+   */
+  constructor(
+    storage: PositionStorage | undefined,
+    key = "position",
+    validate = validateState as (value: unknown) => T | null,
+    interval = 0,
+  ) {
+    this._storage = storage ?? getLocalStorage();
+    this._key = `${KEY_PREFIX}${key}`;
+    this._validate = validate;
+    this._interval = interval;
+  }
+
+  /**
+   * Read the saved state
+   * @returns The state, or `null` if there is none or it is invalid
+   */
+  load(): T | null {
+    try {
+      const value = this._storage?.getItem(this._key);
+      return value ? this._validate(JSON.parse(value)) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Save the state, replacing the previous one
+   */
+  save(state: T): void {
+    if (this._interval <= 0) {
+      this._write(state);
+      return;
+    }
+
+    this._pending = state;
+    if (this._timer !== undefined) {
+      if (typeof window !== "undefined") {
+        window.addEventListener("pagehide", this._onPageHideHandler);
+      }
+      return;
+    }
+
+    this.flush();
+    this._timer = setTimeout(() => {
+      this._timer = undefined;
+      if (this._pending) {
+        this.save(this._pending);
+      }
+    }, this._interval);
+  }
+
+  /**
+   * Write a throttled state right away
+   */
+  flush(): void {
+    if (typeof window !== "undefined") {
+      window.removeEventListener("pagehide", this._onPageHideHandler);
+    }
+
+    const state = this._pending;
+    this._pending = undefined;
+    if (state) {
+      this._write(state);
+    }
+  }
+
+  /**
+   * Remove the saved state, dropping a throttled one
+   */
+  clear(): void {
+    this._pending = undefined;
+    if (this._timer !== undefined) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+    if (typeof window !== "undefined") {
+      window.removeEventListener("pagehide", this._onPageHideHandler);
+    }
+
+    try {
+      this._storage?.removeItem(this._key);
+    } catch {
+      // Persistence is best effort
+    }
+  }
+
+  /**
+   * @private
+   */
+  private _write(state: T): void {
+    try {
+      this._storage?.setItem(this._key, JSON.stringify(state));
+    } catch {
+      // Persistence is best effort
+    }
+  }
+}
+
+/**
+ * @private
+ */
+function getLocalStorage(): PositionStorage | undefined {
+  try {
+    // Accessing localStorage throws when the browser blocks it
+    return globalThis.localStorage ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check the shape of a parsed state, which may come from an older version or another app
+ * @private
+ */
+function validateState(value: unknown): PersistedState | null {
+  const state = value as Partial<PersistedState> | null;
+  const [lng, lat] = Array.isArray(state?.position) ? state.position : [];
+  if (
+    typeof lng !== "number" ||
+    typeof lat !== "number" ||
+    !Number.isFinite(lng) ||
+    !Number.isFinite(lat) ||
+    lat < -90 ||
+    lat > 90 ||
+    typeof state?.accuracy !== "number" ||
+    !(state.accuracy >= 0) ||
+    typeof state.showAccuracyCircle !== "boolean"
+  ) {
+    return null;
+  }
+  return {
+    position: [lng, lat],
+    accuracy: state.accuracy,
+    showAccuracyCircle: state.showAccuracyCircle,
+  };
+}
+
+/**
+ * Check the shape of parsed saved places, skipping invalid ones
+ * @private
+ */
+export function validatePresets(value: unknown): PositionPreset[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  return value.flatMap((item: Partial<PositionPreset> | null) => {
+    const [lng, lat] = Array.isArray(item?.position) ? item.position : [];
+    if (
+      typeof item?.id !== "string" ||
+      typeof item.label !== "string" ||
+      typeof lng !== "number" ||
+      typeof lat !== "number" ||
+      !Number.isFinite(lng) ||
+      !Number.isFinite(lat) ||
+      lat < -90 ||
+      lat > 90
+    ) {
+      return [];
+    }
+    const preset: PositionPreset = {
+      id: item.id,
+      label: item.label,
+      position: new maplibregl.LngLat(lng, lat),
+    };
+    if (typeof item.accuracy === "number" && item.accuracy >= 0) {
+      preset.accuracy = item.accuracy;
+    }
+    if (typeof item.zoom === "number" && Number.isFinite(item.zoom)) {
+      preset.zoom = item.zoom;
+    }
+    return [preset];
+  });
+}
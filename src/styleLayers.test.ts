@@ -0,0 +1,69 @@
+import type maplibregl from "maplibre-gl";
+import { describe, expect, it } from "vitest";
+import { addGeoJSONLayers, type GeoJSONLayers } from "./styleLayers";
+
+// Just enough of the Map style API to observe the source and layers, with addSource()
+// throwing until the style has loaded, like MapLibre's
+function createStyleMapStub(styleLayers: Array<{ id: string }>) {
+  const sources = new Set<string>();
+  const layers: Array<{ id: string; beforeId?: string }> = [...styleLayers];
+  let styleLoaded = false;
+
+  const map = {
+    getSource: (id: string) => sources.has(id) || undefined,
+    addSource: (id: string) => {
+      if (!styleLoaded) {
+        throw new Error("Style is not done loading.");
+      }
+      sources.add(id);
+    },
+    getLayer: (id: string) => layers.find((layer) => layer.id === id),
+    addLayer: (layer: { id: string }, beforeId?: string) => {
+      layers.push({ id: layer.id, beforeId });
+    },
+  };
+
+  return {
+    map: map as unknown as maplibregl.Map,
+    load: () => {
+      styleLoaded = true;
+    },
+    layers,
+  };
+}
+
+describe("addGeoJSONLayers", () => {
+  const options: GeoJSONLayers = {
+    id: "trail",
+    data: () => ({ type: "FeatureCollection", features: [] }),
+    layers: () => [{ id: "trail-line", type: "line", source: "trail" }],
+  };
+
+  it("should wait for the style to load and add the layers once", () => {
+    const { map, load, layers } = createStyleMapStub([]);
+
+    expect(addGeoJSONLayers(map, options)).toBe(false);
+    expect(layers).toHaveLength(0);
+
+    load();
+    expect(addGeoJSONLayers(map, options)).toBe(true);
+    expect(addGeoJSONLayers(map, options)).toBe(true);
+    expect(layers.map((layer) => layer.id)).toEqual(["trail-line"]);
+  });
+
+  it("should only insert before a layer the style has", () => {
+    const { map, load, layers } = createStyleMapStub([{ id: "labels" }]);
+    load();
+
+    addGeoJSONLayers(map, { ...options, beforeId: "labels" });
+    addGeoJSONLayers(map, {
+      ...options,
+      id: "other",
+      beforeId: "missing",
+    });
+    expect(layers.slice(1)).toEqual([
+      { id: "trail-line", beforeId: "labels" },
+      { id: "trail-line", beforeId: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import type { LayerSpecification, Map } from "maplibre-gl";
+
+/**
+ * A `geojson` source and the layers drawing it
+ * @private
+ */
+export interface GeoJSONLayers {
+  /** Id of the source */
+  id: string;
+  /** Builds the data of the source */
+  data: () => GeoJSON.GeoJSON;
+  /** Builds the layers once the source has been added */
+  layers: () => LayerSpecification[];
+  /** Id of a layer to insert the layers before */
+  beforeId?: string;
+}
+
+/**
+ * Add a `geojson` source and its layers if the current style lacks them. Called on
+ * every `styledata` event, this adds them again whenever a new style removes them,
+ * e.g. after `map.setStyle()`.
+ * @param map - The map to add them to
+ * @param options - The source and layers
+ * @returns Whether the source is part of the style
+ * @private
+ */
+export function addGeoJSONLayers(
+  map: Map,
+  { id, data, layers, beforeId }: GeoJSONLayers,
+): boolean {
+  if (map.getSource(id)) {
+    return true;
+  }
+
+  // Sources can only be added once the style has loaded. addSource() throws
+  // before that, which is cheaper to detect than serializing the style and,
+  // unlike isStyleLoaded(), does not wait for tiles to finish loading
+  try {
+    map.addSource(id, { type: "geojson", data: data() });
+  } catch {
+    return false;
+  }
+
+  // Only insert below layers that exist in the new style
+  const before = beforeId && map.getLayer(beforeId) ? beforeId : undefined;
+  for (const layer of layers()) {
+    map.addLayer(layer, before);
+  }
+  return true;
+}
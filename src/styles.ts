@@ -0,0 +1,280 @@
+const STYLE_ELEMENT_ID = "maplibregl-manual-geolocate-styles";
+
+/**
+ * Styles for elements that MapLibre's stylesheet does not provide.
+ * Class names follow the native control so they can be overridden the same way.
+ * The library build also ships them as `dist/maplibre-gl-manual-geolocate.css`.
+ * @private
+ */
+export const CSS = `
+/* Same as MapLibre's dot unless the marker style sets the custom properties */
+.maplibregl-user-location-dot.maplibregl-manual-geolocate-dot,
+.maplibregl-user-location-dot.maplibregl-manual-geolocate-dot::before {
+  width: var(--maplibregl-manual-geolocate-dot-size, 15px);
+  height: var(--maplibregl-manual-geolocate-dot-size, 15px);
+  background-color: var(--maplibregl-manual-geolocate-dot-color, #1da1f2);
+}
+
+.maplibregl-user-location-dot.maplibregl-manual-geolocate-dot::after {
+  top: calc(-1 * var(--maplibregl-manual-geolocate-dot-border-width, 2px));
+  left: calc(-1 * var(--maplibregl-manual-geolocate-dot-border-width, 2px));
+  width: calc(
+    var(--maplibregl-manual-geolocate-dot-size, 15px) + 2 *
+      var(--maplibregl-manual-geolocate-dot-border-width, 2px)
+  );
+  height: calc(
+    var(--maplibregl-manual-geolocate-dot-size, 15px) + 2 *
+      var(--maplibregl-manual-geolocate-dot-border-width, 2px)
+  );
+  border-width: var(--maplibregl-manual-geolocate-dot-border-width, 2px);
+  border-color: var(--maplibregl-manual-geolocate-dot-border-color, #fff);
+}
+
+.maplibregl-manual-geolocate-dot.maplibregl-user-location-dot-stale {
+  background-color: #aaa;
+}
+
+.maplibregl-user-location-accuracy-circle.maplibregl-manual-geolocate-accuracy {
+  background-color: var(--maplibregl-manual-geolocate-accuracy-fill, #1da1f233);
+  box-shadow: inset 0 0 0
+    var(--maplibregl-manual-geolocate-accuracy-stroke-width, 0px)
+    var(--maplibregl-manual-geolocate-accuracy-stroke-color, transparent);
+}
+
+.maplibregl-user-location-heading {
+  width: 60px;
+  height: 60px;
+  pointer-events: none;
+}
+
+.maplibregl-user-location-heading::before {
+  content: "";
+  position: absolute;
+  inset: 0;
+  background: linear-gradient(to top, #1da1f2cc 0%, #1da1f200 50%);
+  clip-path: polygon(50% 50%, 25% 0, 75% 0);
+}
+
+.maplibregl-map.maplibregl-manual-geolocate-picking
+  .maplibregl-canvas-container.maplibregl-interactive,
+.maplibregl-map.maplibregl-manual-geolocate-picking .maplibregl-canvas {
+  cursor: crosshair;
+}
+
+.maplibregl-ctrl button.maplibregl-ctrl-geolocate-picking {
+  background-color: rgb(0 0 0 / 10%);
+}
+
+.maplibregl-user-location-dot-draggable {
+  cursor: grab;
+}
+
+.maplibregl-user-location-dot-draggable:focus-visible {
+  outline: 2px solid #1da1f2;
+  outline-offset: 3px;
+}
+
+.maplibregl-manual-geolocate-announcer {
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  overflow: hidden;
+  clip-path: inset(50%);
+  white-space: nowrap;
+}
+
+.maplibregl-manual-geolocate-panel-container,
+.maplibregl-manual-geolocate-presets-container {
+  position: relative;
+}
+
+/* The live region, panel and menu between the buttons break MapLibre's button + button rule */
+.maplibregl-ctrl-group button.maplibregl-ctrl-manual-geolocate-panel-toggle,
+.maplibregl-ctrl-group button.maplibregl-ctrl-manual-geolocate-presets {
+  border-top: 1px solid #ddd;
+}
+
+.maplibregl-ctrl button.maplibregl-ctrl-manual-geolocate-panel-toggle
+  .maplibregl-ctrl-icon {
+  background-image: url("data:image/svg+xml;charset=utf-8,%3Csvg xmlns='http://www.w3.org/2000/svg' width='29' height='29' fill='%23333'%3E%3Cpath d='M17.5 8.5l3 3-8.5 8.5H9v-3zm1.4-1.4l1.4-1.4a1 1 0 0 1 1.4 0l1.6 1.6a1 1 0 0 1 0 1.4l-1.4 1.4z'/%3E%3C/svg%3E");
+}
+
+.maplibregl-ctrl button.maplibregl-ctrl-manual-geolocate-panel-toggle[aria-expanded="true"] {
+  background-color: rgb(0 0 0 / 10%);
+}
+
+.maplibregl-manual-geolocate-panel {
+  position: absolute;
+  top: 0;
+  right: calc(100% + 6px);
+  box-sizing: border-box;
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  width: var(--maplibregl-manual-geolocate-panel-width, 220px);
+  padding: 8px;
+  border-radius: var(--maplibregl-manual-geolocate-panel-border-radius, 4px);
+  background: var(--maplibregl-manual-geolocate-panel-background, #fff);
+  box-shadow: 0 0 0 2px rgb(0 0 0 / 10%);
+  color: var(--maplibregl-manual-geolocate-panel-color, #333);
+  font: var(
+    --maplibregl-manual-geolocate-panel-font,
+    12px/20px "Helvetica Neue", Arial, Helvetica, sans-serif
+  );
+  accent-color: var(--maplibregl-manual-geolocate-panel-accent, #1da1f2);
+}
+
+.maplibregl-manual-geolocate-panel[hidden] {
+  display: none;
+}
+
+.maplibregl-ctrl-top-left .maplibregl-manual-geolocate-panel,
+.maplibregl-ctrl-bottom-left .maplibregl-manual-geolocate-panel {
+  right: auto;
+  left: calc(100% + 6px);
+}
+
+.maplibregl-ctrl-bottom-left .maplibregl-manual-geolocate-panel,
+.maplibregl-ctrl-bottom-right .maplibregl-manual-geolocate-panel {
+  top: auto;
+  bottom: 0;
+}
+
+.maplibregl-manual-geolocate-panel input[type="text"] {
+  box-sizing: border-box;
+  width: 100%;
+  padding: 2px 4px;
+  border: 1px solid rgb(0 0 0 / 25%);
+  border-radius: 2px;
+  font: inherit;
+}
+
+.maplibregl-manual-geolocate-panel input[aria-invalid="true"] {
+  border-color: var(--maplibregl-manual-geolocate-panel-error-color, #e54e33);
+}
+
+.maplibregl-manual-geolocate-panel-error {
+  color: var(--maplibregl-manual-geolocate-panel-error-color, #e54e33);
+}
+
+.maplibregl-manual-geolocate-panel-error:empty {
+  display: none;
+}
+
+.maplibregl-ctrl-group .maplibregl-manual-geolocate-panel button {
+  width: auto;
+  height: auto;
+  padding: 2px 12px;
+  border: 0;
+  border-radius: 2px;
+  background: var(--maplibregl-manual-geolocate-panel-accent, #1da1f2);
+  color: #fff;
+  font: inherit;
+}
+
+.maplibregl-ctrl-group
+  .maplibregl-manual-geolocate-panel
+  button:not(:disabled):hover {
+  background: var(--maplibregl-manual-geolocate-panel-accent, #1da1f2);
+  filter: brightness(90%);
+}
+
+.maplibregl-ctrl button.maplibregl-ctrl-manual-geolocate-presets
+  .maplibregl-ctrl-icon {
+  background-image: url("data:image/svg+xml;charset=utf-8,%3Csvg xmlns='http://www.w3.org/2000/svg' width='29' height='29' fill='%23333'%3E%3Cpath d='M10 7h9a1 1 0 0 1 1 1v14l-5.5-3.5L9 22V8a1 1 0 0 1 1-1z'/%3E%3C/svg%3E");
+}
+
+.maplibregl-ctrl button.maplibregl-ctrl-manual-geolocate-presets[aria-expanded="true"] {
+  background-color: rgb(0 0 0 / 10%);
+}
+
+.maplibregl-manual-geolocate-presets {
+  position: absolute;
+  top: 0;
+  right: calc(100% + 6px);
+  z-index: 1;
+  box-sizing: border-box;
+  min-width: 160px;
+  max-height: 300px;
+  overflow-y: auto;
+  padding: 4px 0;
+  border-radius: var(--maplibregl-manual-geolocate-panel-border-radius, 4px);
+  background: var(--maplibregl-manual-geolocate-panel-background, #fff);
+  box-shadow: 0 0 0 2px rgb(0 0 0 / 10%);
+  font: var(
+    --maplibregl-manual-geolocate-panel-font,
+    12px/20px "Helvetica Neue", Arial, Helvetica, sans-serif
+  );
+}
+
+.maplibregl-manual-geolocate-presets[hidden] {
+  display: none;
+}
+
+.maplibregl-ctrl-top-left .maplibregl-manual-geolocate-presets,
+.maplibregl-ctrl-bottom-left .maplibregl-manual-geolocate-presets {
+  right: auto;
+  left: calc(100% + 6px);
+}
+
+.maplibregl-ctrl-bottom-left .maplibregl-manual-geolocate-presets,
+.maplibregl-ctrl-bottom-right .maplibregl-manual-geolocate-presets {
+  top: auto;
+  bottom: 0;
+}
+
+.maplibregl-ctrl-group .maplibregl-manual-geolocate-presets button {
+  width: 100%;
+  height: auto;
+  padding: 2px 10px;
+  border: 0;
+  border-radius: 0;
+  background: none;
+  color: var(--maplibregl-manual-geolocate-panel-color, #333);
+  font: inherit;
+  text-align: left;
+  white-space: nowrap;
+}
+
+.maplibregl-ctrl-group
+  .maplibregl-manual-geolocate-presets
+  button:not(:disabled):hover,
+.maplibregl-manual-geolocate-presets button:focus-visible {
+  background: rgb(0 0 0 / 5%);
+  outline: none;
+  box-shadow: inset 3px 0 var(--maplibregl-manual-geolocate-panel-accent, #1da1f2);
+}
+
+.maplibregl-manual-geolocate-presets button[aria-disabled="true"] {
+  opacity: 0.5;
+}
+
+.maplibregl-manual-geolocate-presets [role="separator"] {
+  margin: 4px 0;
+  border-top: 1px solid rgb(0 0 0 / 10%);
+}
+
+.maplibregl-manual-geolocate-panel :focus-visible {
+  outline: 2px solid var(--maplibregl-manual-geolocate-panel-accent, #1da1f2);
+  outline-offset: 1px;
+}
+`;
+
+/**
+ * Add the control's stylesheet to the document once
+ * @private
+ */
+export function injectStyles(): void {
+  if (typeof document === "undefined") {
+    return;
+  }
+
+  if (document.getElementById(STYLE_ELEMENT_ID)) {
+    return;
+  }
+
+  const style = document.createElement("style");
+  style.id = STYLE_ELEMENT_ID;
+  style.textContent = CSS;
+  document.head.appendChild(style);
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { parseGeoJSONTrack, parseGPX, parseKML } from "./trackParsers";
+
+describe("parseGPX", () => {
+  it("should read track points with elevation, time and hdop", () => {
+    const fixes = parseGPX(`<?xml version="1.0"?>
+      <gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+        <wpt lat="35.0" lon="139.0"><name>Ignored</name></wpt>
+        <trk><trkseg>
+          <trkpt lat="35.6" lon="139.7">
+            <ele>12.5</ele>
+            <time>2024-05-01T00:00:00Z</time>
+            <hdop>2</hdop>
+          </trkpt>
+          <trkpt lat="35.601" lon="139.7">
+            <time>2024-05-01T00:00:10Z</time>
+          </trkpt>
+        </trkseg></trk>
+      </gpx>`);
+
+    expect(fixes).toEqual([
+      {
+        position: [139.7, 35.6],
+        altitude: 12.5,
+        timestamp: Date.UTC(2024, 4, 1, 0, 0, 0),
+        accuracy: 10,
+      },
+      {
+        position: [139.7, 35.601],
+        timestamp: Date.UTC(2024, 4, 1, 0, 0, 10),
+      },
+    ]);
+  });
+
+  it("should fall back to waypoints and honour dopScale", () => {
+    const fixes = parseGPX(
+      `<gpx><wpt lat="35.6" lon="139.7"><hdop>1.5</hdop></wpt></gpx>`,
+      { dopScale: 4 },
+    );
+    expect(fixes).toEqual([{ position: [139.7, 35.6], accuracy: 6 }]);
+  });
+
+  it("should reject malformed documents and coordinates", () => {
+    expect(() => parseGPX("<gpx><trk>")).toThrow("invalid XML");
+    expect(() => parseGPX(`<gpx><wpt lat="95" lon="139.7"/></gpx>`)).toThrow(
+      "invalid coordinates",
+    );
+  });
+});
+
+describe("parseKML", () => {
+  it("should read gx:Track with timestamps", () => {
+    const fixes = parseKML(`<kml xmlns="http://www.opengis.net/kml/2.2"
+        xmlns:gx="http://www.google.com/kml/ext/2.2">
+        <Placemark><gx:Track>
+          <when>2024-05-01T00:00:00Z</when>
+          <when>2024-05-01T00:00:05Z</when>
+          <gx:coord>139.7 35.6 10</gx:coord>
+          <gx:coord>139.701 35.6 11</gx:coord>
+        </gx:Track></Placemark>
+      </kml>`);
+
+    expect(fixes).toEqual([
+      {
+        position: [139.7, 35.6],
+        altitude: 10,
+        timestamp: Date.UTC(2024, 4, 1, 0, 0, 0),
+      },
+      {
+        position: [139.701, 35.6],
+        altitude: 11,
+        timestamp: Date.UTC(2024, 4, 1, 0, 0, 5),
+      },
+    ]);
+  });
+
+  it("should read LineString coordinates without timestamps", () => {
+    const fixes = parseKML(`<kml xmlns="http://www.opengis.net/kml/2.2">
+        <Placemark><LineString><coordinates>
+          139.7,35.6,5 139.701,35.601
+        </coordinates></LineString></Placemark>
+      </kml>`);
+
+    expect(fixes).toEqual([
+      { position: [139.7, 35.6], altitude: 5 },
+      { position: [139.701, 35.601] },
+    ]);
+  });
+});
+
+describe("parseGeoJSONTrack", () => {
+  it("should read timed points and LineString coordTimes", () => {
+    const fixes = parseGeoJSONTrack({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [139.7, 35.6, 3] },
+          properties: { time: "2024-05-01T00:00:00Z", hdop: 1 },
+        },
+        {
+          type: "Feature",
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [139.701, 35.6],
+              [139.702, 35.6],
+            ],
+          },
+          properties: { coordTimes: [1_000, "2024-05-01T00:00:02Z"] },
+        },
+      ],
+    });
+
+    expect(fixes).toEqual([
+      {
+        position: [139.7, 35.6],
+        altitude: 3,
+        timestamp: Date.UTC(2024, 4, 1, 0, 0, 0),
+        accuracy: 5,
+      },
+      { position: [139.701, 35.6], timestamp: 1_000 },
+      {
+        position: [139.702, 35.6],
+        timestamp: Date.UTC(2024, 4, 1, 0, 0, 2),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,280 @@
+import type { PositionFix, TrackParserOptions } from "./types";
+
+/**
+ * Default User Equivalent Range Error in meters, used to turn a dilution of
+ * precision (e.g. GPX `hdop`) into an accuracy radius
+ */
+export const DEFAULT_DOP_SCALE = 5;
+
+const KML_EXT_NAMESPACE = "http://www.google.com/kml/ext/2.2";
+
+/**
+ * Parse a GPX document into a timeline of position fixes.
+ *
+ * Track points (`trkpt`) are used when present, then route points (`rtept`), then
+ * waypoints (`wpt`). Each fix carries `ele` as altitude, `time` as timestamp and an
+ * accuracy derived from `hdop` where present. GPX 1.0 `course` and `speed` are kept too.
+ *
+ * @param gpx - The GPX document as a string
+ * @param options - Parser options
+ * @returns The position fixes in document order
+ *
+ * @example
+ * ```typescript
+ * const timeline = parseGPX(await (await fetch("walk.gpx")).text());
+ * new RoutePlayback(manualGeolocateControl, timeline).play();
+ * ```
+ */
+export function parseGPX(
+  gpx: string,
+  options: TrackParserOptions = {},
+): PositionFix[] {
+  const doc = parseXML(gpx, "parseGPX");
+  const dopScale = options.dopScale ?? DEFAULT_DOP_SCALE;
+
+  let points = doc.getElementsByTagNameNS("*", "trkpt");
+  if (points.length === 0) {
+    points = doc.getElementsByTagNameNS("*", "rtept");
+  }
+  if (points.length === 0) {
+    points = doc.getElementsByTagNameNS("*", "wpt");
+  }
+
+  return Array.from(points, (point, index) => {
+    const lng = Number(point.getAttribute("lon"));
+    const lat = Number(point.getAttribute("lat"));
+    if (
+      !point.hasAttribute("lon") ||
+      !point.hasAttribute("lat") ||
+      !isValidCoordinate(lng, lat)
+    ) {
+      throw new Error(
+        `parseGPX: invalid coordinates in ${point.localName} #${index}`,
+      );
+    }
+
+    const fix: PositionFix = { position: [lng, lat] };
+
+    const altitude = readNumber(point, "ele");
+    if (altitude !== undefined) fix.altitude = altitude;
+
+    const timestamp = parseTime(readText(point, "time"));
+    if (timestamp !== undefined) fix.timestamp = timestamp;
+
+    const hdop = readNumber(point, "hdop");
+    if (hdop !== undefined) fix.accuracy = hdop * dopScale;
+
+    const course = readNumber(point, "course");
+    if (course !== undefined) fix.heading = course;
+
+    const speed = readNumber(point, "speed");
+    if (speed !== undefined) fix.speed = speed;
+
+    return fix;
+  });
+}
+
+/**
+ * Parse a KML document into a timeline of position fixes.
+ *
+ * `gx:Track` elements are read with their `when` timestamps. When the document has
+ * no tracks, the vertices of its `LineString` elements are used without timestamps.
+ *
+ * @param kml - The KML document as a string
+ * @returns The position fixes in document order
+ */
+export function parseKML(kml: string): PositionFix[] {
+  const doc = parseXML(kml, "parseKML");
+  const fixes: PositionFix[] = [];
+
+  const tracks = doc.getElementsByTagNameNS(KML_EXT_NAMESPACE, "Track");
+  for (const track of Array.from(tracks)) {
+    const whens = track.getElementsByTagNameNS("*", "when");
+    const coords = track.getElementsByTagNameNS(KML_EXT_NAMESPACE, "coord");
+    if (whens.length !== coords.length) {
+      throw new Error(
+        "parseKML: gx:Track must have as many <when> as <gx:coord> elements",
+      );
+    }
+
+    for (let i = 0; i < coords.length; i++) {
+      const [lng, lat, altitude] = (coords[i].textContent ?? "")
+        .trim()
+        .split(/\s+/)
+        .map(Number);
+      const fix = createKMLFix(lng, lat, altitude);
+      const timestamp = parseTime(whens[i].textContent);
+      if (timestamp !== undefined) fix.timestamp = timestamp;
+      fixes.push(fix);
+    }
+  }
+
+  if (fixes.length > 0) {
+    return fixes;
+  }
+
+  const lines = doc.getElementsByTagNameNS("*", "LineString");
+  for (const line of Array.from(lines)) {
+    const text = readText(line, "coordinates") ?? "";
+    for (const tuple of text.trim().split(/\s+/).filter(Boolean)) {
+      const [lng, lat, altitude] = tuple.split(",").map(Number);
+      fixes.push(createKMLFix(lng, lat, altitude));
+    }
+  }
+
+  return fixes;
+}
+
+/**
+ * Convert GeoJSON point or line features with time properties into a timeline of
+ * position fixes.
+ *
+ * Point features read their timestamp from a `time` or `timestamp` property (ISO 8601
+ * string or epoch milliseconds), and their accuracy from `accuracy` or `hdop`.
+ * LineString features read per-vertex timestamps from `properties.coordTimes` or
+ * `properties.coordinateProperties.times`, as written by common GPX converters.
+ * A third coordinate value is used as altitude.
+ *
+ * @param geojson - A FeatureCollection, Feature or bare geometry
+ * @param options - Parser options
+ * @returns The position fixes in document order
+ */
+export function parseGeoJSONTrack(
+  geojson: GeoJSON.GeoJSON,
+  options: TrackParserOptions = {},
+): PositionFix[] {
+  const dopScale = options.dopScale ?? DEFAULT_DOP_SCALE;
+  const features: GeoJSON.Feature[] =
+    geojson.type === "FeatureCollection"
+      ? geojson.features
+      : geojson.type === "Feature"
+        ? [geojson]
+        : [{ type: "Feature", geometry: geojson, properties: {} }];
+
+  const fixes: PositionFix[] = [];
+  for (const feature of features) {
+    const properties = feature.properties ?? {};
+    const geometry = feature.geometry;
+
+    if (geometry?.type === "Point") {
+      const fix = createGeoJSONFix(geometry.coordinates);
+      const timestamp = parseTime(properties.time ?? properties.timestamp);
+      if (timestamp !== undefined) fix.timestamp = timestamp;
+      if (typeof properties.accuracy === "number") {
+        fix.accuracy = properties.accuracy;
+      } else if (typeof properties.hdop === "number") {
+        fix.accuracy = properties.hdop * dopScale;
+      }
+      fixes.push(fix);
+    } else if (geometry?.type === "LineString") {
+      const times: unknown[] | undefined =
+        properties.coordTimes ?? properties.coordinateProperties?.times;
+      geometry.coordinates.forEach((coordinates, index) => {
+        const fix = createGeoJSONFix(coordinates);
+        const timestamp = parseTime(times?.[index]);
+        if (timestamp !== undefined) fix.timestamp = timestamp;
+        fixes.push(fix);
+      });
+    }
+  }
+
+  return fixes;
+}
+
+/**
+ * Parse an XML string, throwing if the document is malformed
+ * @private
+ */
+function parseXML(text: string, caller: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`${caller}: invalid XML document`);
+  }
+  return doc;
+}
+
+/**
+ * Read the text of the first child element with the given local name
+ * @private
+ */
+function readText(element: Element, localName: string): string | undefined {
+  for (const child of Array.from(element.children)) {
+    if (child.localName === localName) {
+      return child.textContent?.trim() ?? undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the first child element with the given local name as a number
+ * @private
+ */
+function readNumber(element: Element, localName: string): number | undefined {
+  const text = readText(element, localName);
+  if (!text) return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Parse an ISO 8601 string or epoch milliseconds into epoch milliseconds
+ * @private
+ */
+function parseTime(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+  const time = Date.parse(value.trim());
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * @private
+ */
+function isValidCoordinate(lng: number, lat: number): boolean {
+  return (
+    Number.isFinite(lng) &&
+    Number.isFinite(lat) &&
+    lng >= -180 &&
+    lng <= 180 &&
+    lat >= -90 &&
+    lat <= 90
+  );
+}
+
+/**
+ * @private
+ */
+function createKMLFix(
+  lng: number,
+  lat: number,
+  altitude: number | undefined,
+): PositionFix {
+  if (!isValidCoordinate(lng, lat)) {
+    throw new Error("parseKML: invalid coordinates");
+  }
+  const fix: PositionFix = { position: [lng, lat] };
+  if (altitude !== undefined && Number.isFinite(altitude)) {
+    fix.altitude = altitude;
+  }
+  return fix;
+}
+
+/**
+ * @private
+ */
+function createGeoJSONFix(coordinates: GeoJSON.Position): PositionFix {
+  const [lng, lat, altitude] = coordinates;
+  if (!isValidCoordinate(lng, lat)) {
+    throw new Error("parseGeoJSONTrack: invalid coordinates");
+  }
+  const fix: PositionFix = { position: [lng, lat] };
+  if (altitude !== undefined) {
+    fix.altitude = altitude;
+  }
+  return fix;
+}
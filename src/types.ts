@@ -1,4 +1,7 @@
-import type { FitBoundsOptions, LngLatLike } from "maplibre-gl";
+import type { FitBoundsOptions, LngLat, LngLatLike, Map } from "maplibre-gl";
+import type { ManualGeolocateControl } from "./ManualGeolocateControl";
+import type { ManualPositions } from "./ManualPositions";
+import type { NMEAParseError } from "./nmea";
 
 /**
  * Options for the ManualGeolocateControl
@@ -20,36 +23,1248 @@ export interface ManualGeolocateControlOptions {
    */
   accuracy?: number;
 
+  /**
+   * Elliptical uncertainty drawn instead of the accuracy circle. When set, `accuracy`
+   * is replaced by the ellipse's equivalent radius.
+   * @default null
+   */
+  uncertaintyEllipse?: UncertaintyEllipse | null;
+
   /**
    * Whether to show the transparent circle around the position indicating the accuracy
    * @default true
    */
   showAccuracyCircle?: boolean;
 
+  /**
+   * How the accuracy circle is drawn:
+   * - `"marker"` - a DOM element resized on every camera change, like the native control
+   * - `"layer"` - a geodesic polygon in a `geojson` source with fill and line layers,
+   *   which stays correct at high latitudes and under pitch
+   *
+   * A DOM element can't follow the curvature of the globe, so `"marker"` mode switches
+   * to the layers while the map uses a globe projection.
+   * @default "marker"
+   */
+  accuracyCircleMode?: "marker" | "layer";
+
+  /**
+   * In `"layer"` mode, the id of the `geojson` source. The fill and line layers use it
+   * as a prefix: `<id>-fill` and `<id>-line`.
+   * @default "manual-geolocate-accuracy"
+   */
+  accuracyCircleLayerId?: string;
+
+  /**
+   * In `"layer"` mode, the id of an existing layer to insert the accuracy layers before,
+   * e.g. to keep labels on top. The layers are added on top when omitted.
+   */
+  accuracyCircleBeforeId?: string;
+
+  /**
+   * Keep a history of past positions and draw it as a fading trail behind the dot.
+   * `true` uses the default trail options.
+   * @default false
+   */
+  trail?: boolean | TrailOptions;
+
+  /**
+   * Read the initial position, accuracy and heading from the page URL, and keep the URL
+   * updated as they change, e.g. `#loc=139.69,35.68,50`. `true` uses the default options.
+   * @default false
+   */
+  urlSync?: boolean | UrlSyncOptions;
+
+  /**
+   * Save the position, accuracy and `showAccuracyCircle` whenever they change, and
+   * restore them instead of the options on the next page load. `true` uses
+   * `localStorage` with the default key.
+   * @default false
+   */
+  persistence?: boolean | PersistenceOptions;
+
+  /**
+   * Add a button to the control that opens a panel for typing or pasting coordinates,
+   * adjusting the accuracy and toggling the accuracy circle. `true` uses the default
+   * panel options.
+   * @default false
+   */
+  panel?: boolean | CoordinatePanelOptions;
+
+  /**
+   * Labeled positions listed in a menu opened from a button in the control group.
+   * Selecting one moves the position there and triggers the control.
+   */
+  presets?: PositionPreset[];
+
+  /**
+   * Keep presets added with `addPreset()` across page loads, and add a menu item that
+   * saves the current position as a preset. `true` uses `localStorage` with the key
+   * `"places"`.
+   * @default false
+   */
+  savedPlaces?: boolean | PersistenceOptions;
+
+  /**
+   * Text of the control's buttons, panels and screen reader announcements. Labels that
+   * are omitted are read from the map's `locale` option, then fall back to English.
+   */
+  labels?: Partial<ManualGeolocateLabels>;
+
+  /**
+   * Colors and sizes of the dot and the accuracy circle. The native control's look is
+   * kept for every property that is omitted.
+   */
+  markerStyle?: MarkerStyle;
+
+  /**
+   * Element shown at the position instead of the blue dot, e.g. an avatar image. It is
+   * centered on the position.
+   */
+  positionElement?: HTMLElement;
+
+  /**
+   * Called with the element shown at the position, the stock dot or `positionElement`,
+   * when the control is added and whenever the position, accuracy, heading or speed
+   * changes.
+   * Use it to draw state such as the speed into the marker.
+   */
+  renderPosition?: PositionRenderer;
+
+  /**
+   * Add the control's stylesheet to the page in a `<style>` element. Set to `false`
+   * when a Content Security Policy blocks inline styles, and load
+   * `dist/maplibre-gl-manual-geolocate.css` instead.
+   * @default true
+   */
+  injectStyles?: boolean;
+
   /**
    * A `FitBoundsOptions` object to use when the map is panned and zoomed to the manual location.
    * The default is to use a `maxZoom` of 15 to limit how far the map will zoom in for very accurate locations.
    * @default {maxZoom: 15}
    */
   fitBoundsOptions?: FitBoundsOptions;
+
+  /**
+   * If `true` the control becomes a toggle button and, when active, the map follows
+   * the manual position as it is updated through `setPosition()`.
+   * Panning the map moves the control into the background state, like the native control.
+   * @default false
+   */
+  trackUserLocation?: boolean;
+
+  /**
+   * Direction of travel in degrees clockwise from true north, reported in `coords.heading`
+   * and drawn as a cone when `showUserHeading` is enabled
+   * @default null
+   */
+  heading?: number | null;
+
+  /**
+   * Whether to draw a cone on the position dot pointing in the direction of `heading`.
+   * The cone is only drawn while a heading is known.
+   * @default false
+   */
+  showUserHeading?: boolean;
+
+  /**
+   * Whether the position dot can be dragged to move the position. The dot can also be
+   * focused and nudged with the arrow keys (hold Shift for larger steps).
+   * @default false
+   */
+  draggable?: boolean;
+
+  /**
+   * Whether to report the dropped position with a `geolocate` event at the end of a drag.
+   * In tracking mode the drop is reported like a `setPosition()` update.
+   * @default false
+   */
+  geolocateOnDragEnd?: boolean;
+
+  /**
+   * Whether a long press or Shift+click on the button enters position pick mode, where
+   * the next map click sets the manual position. See `startPositionPick()`.
+   * @default false
+   */
+  enablePositionPick?: boolean;
+
+  /**
+   * Make `trigger()` fail with this error instead of reporting the position.
+   * See `setSimulatedError()`.
+   * @default null
+   */
+  simulatedError?: SimulatedGeolocationError | null;
+
+  /**
+   * Simulated geolocation permission. `"denied"` disables the button and makes
+   * `trigger()` fail with a `PERMISSION_DENIED` error.
+   * @default "granted"
+   */
+  permissionState?: PermissionState;
+
+  /**
+   * Altitude in meters above the WGS84 ellipsoid, reported in `coords.altitude`
+   * @default null
+   */
+  altitude?: number | null;
+
+  /**
+   * Accuracy of the altitude in meters, reported in `coords.altitudeAccuracy`
+   * @default null
+   */
+  altitudeAccuracy?: number | null;
+
+  /**
+   * Ground speed in meters per second, reported in `coords.speed`
+   * @default null
+   */
+  speed?: number | null;
+
+  /**
+   * Timestamp in milliseconds since the Unix epoch, reported in the events' `timestamp`.
+   * When omitted, each event is stamped with the time it is fired.
+   */
+  timestamp?: number | null;
+
+  /**
+   * Age in milliseconds after which the position is stale. A stale dot turns grey like
+   * the native control's and `positionstale` is fired. The age counts from `timestamp`,
+   * or from when the position was last set if there is no timestamp.
+   * @default Infinity
+   */
+  maximumAge?: number;
 }
 
 /**
- * Event types supported by ManualGeolocateControl
+ * The W3C `GeolocationCoordinates` fields, without the `toJSON()` serializer
+ */
+export type ManualGeolocationCoordinates = Omit<
+  GeolocationCoordinates,
+  "toJSON"
+>;
+
+/**
+ * An elliptical uncertainty area around the position, as reported by GNSS receivers
+ * or indoor positioning systems
+ */
+export interface UncertaintyEllipse {
+  /**
+   * Semi-major axis in meters
+   */
+  semiMajor: number;
+
+  /**
+   * Semi-minor axis in meters
+   */
+  semiMinor: number;
+
+  /**
+   * Direction of the semi-major axis in degrees clockwise from true north
+   */
+  orientation: number;
+}
+
+/**
+ * Text used by the control. `{lat}`, `{lng}` and `{accuracy}` are replaced with the
+ * position's values.
+ *
+ * Each label can also be set in the map's `locale` option under
+ * `ManualGeolocateControl.<Label>`, e.g. `ManualGeolocateControl.PositionFound`.
+ * `findMyLocation` and `locationNotAvailable` use the native control's
+ * `GeolocateControl.FindMyLocation` and `GeolocateControl.LocationNotAvailable` strings.
+ */
+export interface ManualGeolocateLabels {
+  /**
+   * Title of the geolocate button
+   * @default "Find my location"
+   */
+  findMyLocation: string;
+
+  /**
+   * Title of the geolocate button while permission is denied, also announced on errors
+   * @default "Location not available"
+   */
+  locationNotAvailable: string;
+
+  /**
+   * Announced when the control shows the position
+   * @default "Location found: {lat}, {lng}, accuracy {accuracy} m"
+   */
+  positionFound: string;
+
+  /**
+   * Announced when the position is outside the map's `maxBounds`
+   * @default "Location is outside the map bounds"
+   */
+  outOfMaxBounds: string;
+
+  /**
+   * Label of the draggable position dot
+   * @default "Location. Drag or use the arrow keys to move it"
+   */
+  draggablePosition: string;
+
+  /**
+   * Title of the button opening the coordinate panel
+   * @default "Enter coordinates"
+   */
+  openPanel: string;
+
+  /**
+   * Accessible name of the coordinate panel
+   * @default "Manual position"
+   */
+  panel: string;
+
+  /**
+   * Label of the coordinate field
+   * @default "Coordinates or link"
+   */
+  coordinates: string;
+
+  /**
+   * Shown when the coordinate field can't be parsed
+   * @default "Unrecognized coordinates"
+   */
+  invalidCoordinates: string;
+
+  /**
+   * Shown when the entered coordinates are out of range
+   * @default "Coordinates out of range"
+   */
+  coordinatesOutOfRange: string;
+
+  /**
+   * Label of the accuracy slider
+   * @default "Accuracy"
+   */
+  accuracy: string;
+
+  /**
+   * Value of the accuracy slider
+   * @default "{accuracy} m"
+   */
+  accuracyValue: string;
+
+  /**
+   * Label of the accuracy circle checkbox
+   * @default "Show accuracy circle"
+   */
+  showAccuracyCircle: string;
+
+  /**
+   * Text of the panel's submit button
+   * @default "Go"
+   */
+  go: string;
+
+  /**
+   * Title of the presets menu button
+   * @default "Presets"
+   */
+  presets: string;
+
+  /**
+   * Shown in the presets menu when it is empty
+   * @default "No presets"
+   */
+  noPresets: string;
+
+  /**
+   * Menu item saving the current position with `savedPlaces`
+   * @default "Save current position"
+   */
+  saveCurrentPosition: string;
+}
+
+/**
+ * Colors and sizes of the position markers. Colors are CSS colors and sizes are pixels.
+ * The DOM markers can also be styled with the `--maplibregl-manual-geolocate-*` CSS
+ * custom properties these set.
+ */
+export interface MarkerStyle {
+  /**
+   * Fill of the dot
+   * @default "#1da1f2"
+   */
+  dotColor?: string;
+
+  /**
+   * Border of the dot
+   * @default "#fff"
+   */
+  dotBorderColor?: string;
+
+  /**
+   * Width of the dot border
+   * @default 2
+   */
+  dotBorderWidth?: number;
+
+  /**
+   * Diameter of the dot without its border
+   * @default 15
+   */
+  dotSize?: number;
+
+  /**
+   * Fill of the accuracy circle
+   * @default "#1da1f2"
+   */
+  accuracyFillColor?: string;
+
+  /**
+   * Opacity of the accuracy circle fill
+   * @default 0.2
+   */
+  accuracyFillOpacity?: number;
+
+  /**
+   * Outline of the accuracy circle. The DOM circle has no outline unless one of the
+   * `accuracyStroke*` properties is set.
+   * @default "#1da1f2"
+   */
+  accuracyStrokeColor?: string;
+
+  /**
+   * Opacity of the accuracy circle outline
+   * @default 0.5
+   */
+  accuracyStrokeOpacity?: number;
+
+  /**
+   * Width of the accuracy circle outline
+   * @default 1
+   */
+  accuracyStrokeWidth?: number;
+}
+
+/**
+ * Draws into the element shown at the position
+ * @param element - The stock dot or the `positionElement`
+ * @param position - The current position
+ */
+export type PositionRenderer = (
+  element: HTMLElement,
+  position: ManualGeolocationPosition,
+) => void;
+
+/**
+ * Options for the coordinate entry panel
+ */
+export interface CoordinatePanelOptions {
+  /**
+   * Whether the panel is open when the control is added
+   * @default false
+   */
+  open?: boolean;
+
+  /**
+   * Smallest accuracy in meters selectable with the slider
+   * @default 5
+   */
+  minAccuracy?: number;
+
+  /**
+   * Largest accuracy in meters selectable with the slider
+   * @default 2000
+   */
+  maxAccuracy?: number;
+
+  /**
+   * Step of the accuracy slider in meters
+   * @default 5
+   */
+  accuracyStep?: number;
+}
+
+/**
+ * A labeled position listed in the presets menu
+ */
+export interface PositionPreset {
+  /**
+   * Unique id of the preset
+   */
+  id: string;
+
+  /**
+   * Text shown in the menu
+   */
+  label: string;
+
+  /**
+   * The position
+   */
+  position: LngLatLike;
+
+  /**
+   * Accuracy radius in meters. The current accuracy is kept when omitted.
+   */
+  accuracy?: number;
+
+  /**
+   * Zoom level to show the position at, instead of fitting the accuracy circle
+   */
+  zoom?: number;
+}
+
+/**
+ * Options for the position history trail
  */
-export type ManualGeolocateEventType = "geolocate" | "outofmaxbounds";
+export interface TrailOptions {
+  /**
+   * Number of positions to keep
+   * @default 100
+   */
+  maxPoints?: number;
+
+  /**
+   * Drop positions older than this many milliseconds, measured from the newest
+   * position's timestamp so replayed tracks keep their recorded timing. Positions keep
+   * aging while no new ones arrive, except the newest one, which is always kept.
+   * Positions are kept regardless of age when omitted.
+   */
+  maxAge?: number;
+
+  /**
+   * Draw the trail as a line through the positions, or as a dot at each of them
+   * @default "line"
+   */
+  style?: "line" | "dots";
+
+  /**
+   * CSS color of the trail
+   * @default "#1da1f2"
+   */
+  color?: string;
+
+  /**
+   * Line width, or dot diameter, in pixels
+   * @default 3
+   */
+  width?: number;
+
+  /**
+   * Opacity of the newest part of the trail. Older parts fade out towards 0.
+   * @default 0.8
+   */
+  opacity?: number;
+
+  /**
+   * Id of the `geojson` source. The layer uses it as a prefix: `<id>-line` or `<id>-dots`.
+   * @default "manual-geolocate-trail"
+   */
+  layerId?: string;
+
+  /**
+   * Id of an existing layer to insert the trail layer before. It is added on top when omitted.
+   */
+  beforeId?: string;
+}
 
 /**
- * Event handler function type
+ * Options for synchronizing the manual position with the page URL
  */
-export type EventHandler<T = any> = (event: T) => void;
+export interface UrlSyncOptions {
+  /**
+   * Name of the parameter holding `lng,lat[,accuracy[,heading]]`
+   * @default "loc"
+   */
+  parameter?: string;
+
+  /**
+   * Whether the parameter is kept in the URL hash or in the query string.
+   * In the hash, it is added next to the map's own parameter when the map uses a
+   * named hash such as `hash: "map"`.
+   * @default "hash"
+   */
+  mode?: "hash" | "query";
+}
 
 /**
- * Map of event types to their handler functions.
- * Both events use the browser's native GeolocationPosition type for compatibility
- * with the original GeolocateControl.
+ * Storage used to persist the control's state. `localStorage`, `sessionStorage` and
+ * `MemoryStorage` implement it.
  */
-export interface EventHandlers {
-  geolocate?: EventHandler<GeolocationPosition>[];
-  outofmaxbounds?: EventHandler<GeolocationPosition>[];
+export interface PositionStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
 }
+
+/**
+ * Options for persisting the control's state
+ */
+export interface PersistenceOptions {
+  /**
+   * Where the state is saved
+   * @default localStorage
+   */
+  storage?: PositionStorage;
+
+  /**
+   * Name of the saved state, to keep several controls or apps apart. It is stored under
+   * `maplibre-gl-manual-geolocate:<key>`.
+   * @default "position"
+   */
+  key?: string;
+}
+
+/**
+ * A past position kept by the trail
+ */
+export interface PositionHistoryEntry {
+  /**
+   * The position
+   */
+  lngLat: LngLat;
+
+  /**
+   * Accuracy radius in meters at that position
+   */
+  accuracy: number;
+
+  /**
+   * Time of the position in milliseconds since the epoch
+   */
+  timestamp: number;
+}
+
+/**
+ * A W3C GeolocationPosition, extended with the uncertainty ellipse when one is set.
+ * `coords.accuracy` then holds the ellipse's equivalent radius.
+ */
+export interface ManualGeolocationPosition extends GeolocationPosition {
+  uncertaintyEllipse?: UncertaintyEllipse;
+
+  /**
+   * Milliseconds since the fix: since `timestamp` when one was set, or since the position
+   * was last set otherwise. Set on the positions reported by ManualGeolocateControl.
+   */
+  age?: number;
+}
+
+/**
+ * A single position fix, as reported by a device or a simulated source
+ */
+export interface PositionFix {
+  /**
+   * The coordinates of the fix
+   */
+  position: LngLatLike;
+
+  /**
+   * Accuracy radius in meters. The control keeps its current accuracy when omitted.
+   */
+  accuracy?: number;
+
+  /**
+   * Elliptical uncertainty. When set, it replaces `accuracy` with its equivalent radius.
+   */
+  uncertaintyEllipse?: UncertaintyEllipse;
+
+  /**
+   * Altitude in meters above the WGS84 ellipsoid, or `null` if unknown
+   */
+  altitude?: number | null;
+
+  /**
+   * Accuracy of the altitude in meters, or `null` if unknown
+   */
+  altitudeAccuracy?: number | null;
+
+  /**
+   * Direction of travel in degrees clockwise from true north, or `null` if unknown
+   */
+  heading?: number | null;
+
+  /**
+   * Ground speed in meters per second, or `null` if unknown
+   */
+  speed?: number | null;
+
+  /**
+   * Time of the fix in milliseconds since the Unix epoch. Defaults to the time the event is fired.
+   */
+  timestamp?: number;
+
+  /**
+   * What produced the fix, reported as the `source` of the events it causes
+   * @default "api"
+   */
+  source?: ManualGeolocateEventSource;
+}
+
+/**
+ * An error that `trigger()` fails with, in place of a position
+ */
+export interface SimulatedGeolocationError {
+  /**
+   * `1` (PERMISSION_DENIED), `2` (POSITION_UNAVAILABLE) or `3` (TIMEOUT)
+   */
+  code: GeolocationPositionError["code"];
+
+  /**
+   * The error message. Defaults to a generic message for the code.
+   */
+  message?: string;
+
+  /**
+   * Milliseconds to wait before failing, during which the button shows the waiting state
+   * @default 0
+   */
+  delay?: number;
+}
+
+/**
+ * Watch state of the control when `trackUserLocation` is enabled, matching the native control
+ *
+ * - `OFF` - inactive, no marker shown
+ * - `WAITING_ACTIVE` - turned on, waiting for a delayed simulated error
+ * - `ACTIVE_LOCK` - marker shown and the camera follows position updates
+ * - `ACTIVE_ERROR` - turned on, but the position could not be determined
+ * - `BACKGROUND` - marker shown but the camera no longer follows position updates
+ * - `BACKGROUND_ERROR` - in background, but the position could not be determined
+ */
+export type ManualGeolocateWatchState =
+  | "OFF"
+  | "WAITING_ACTIVE"
+  | "ACTIVE_LOCK"
+  | "ACTIVE_ERROR"
+  | "BACKGROUND"
+  | "BACKGROUND_ERROR";
+
+/**
+ * Payload of the `dragstart`, `drag` and `dragend` events
+ */
+export interface ManualGeolocateDragEvent {
+  /**
+   * The position of the dot
+   */
+  lngLat: LngLat;
+
+  /**
+   * Whether the dot is moved with the pointer or nudged with the arrow keys
+   */
+  input: "pointer" | "keyboard";
+}
+
+/**
+ * Payload of the `positionpick` event
+ */
+export interface ManualGeolocatePickEvent {
+  /**
+   * The position picked on the map
+   */
+  lngLat: LngLat;
+}
+
+/**
+ * Payload of the `presetselect` event
+ */
+export interface ManualGeolocatePresetEvent {
+  /**
+   * The selected preset
+   */
+  preset: PositionPreset;
+}
+
+/**
+ * Payload of the `add` and `remove` events
+ */
+export interface ManualGeolocateLifecycleEvent {
+  /**
+   * The map the control was added to or removed from
+   */
+  map: Map;
+}
+
+/**
+ * What caused a ManualGeolocateControl event:
+ * - `api`: a method call, unless one of the others applies
+ * - `button`: a click on the control's button
+ * - `drag`: the dot being dragged or nudged with the arrow keys
+ * - `pick`: a position picked on the map
+ * - `preset`: a preset selected from the menu or with `selectPreset()`
+ * - `panel`: the coordinate panel
+ * - `url`: a position read from the page URL
+ * - `map`: the user moving the map
+ * - `timer`: time passing, such as the position becoming stale
+ * - `playback`, `nmea`, `jitter`: fixes from RoutePlayback, NMEAFeeder and PositionJitter
+ */
+export type ManualGeolocateEventSource =
+  | "api"
+  | "button"
+  | "drag"
+  | "pick"
+  | "preset"
+  | "panel"
+  | "url"
+  | "map"
+  | "timer"
+  | "playback"
+  | "nmea"
+  | "jitter";
+
+/**
+ * Map of event types to their payloads.
+ * `geolocate`, `error` and `outofmaxbounds` use the browser's native geolocation types
+ * for compatibility with the original GeolocateControl. Tracking mode events carry nothing
+ * besides the fields of `ManualGeolocateEvent`.
+ * Drag events are fired while the draggable position dot is moved, and `positionpick`
+ * when a position is picked on the map. `presetselect` is fired when a preset is selected
+ * from the menu or with `selectPreset()`. `positionstale` is fired when the position
+ * becomes older than `maximumAge`, and `positionfresh` when a newer one replaces it.
+ * `positionchange` and `accuracychange` are fired on every change of the position and
+ * the accuracy, `markershow` and `markerhide` when the dot appears and disappears, and
+ * `add` and `remove` when the control is added to and removed from a map.
+ */
+export interface ManualGeolocateEventMap {
+  geolocate: ManualGeolocationPosition;
+  error: GeolocationPositionError;
+  outofmaxbounds: ManualGeolocationPosition;
+  dragstart: ManualGeolocateDragEvent;
+  drag: ManualGeolocateDragEvent;
+  dragend: ManualGeolocateDragEvent;
+  positionpick: ManualGeolocatePickEvent;
+  presetselect: ManualGeolocatePresetEvent;
+  positionstale: ManualGeolocationPosition;
+  positionfresh: ManualGeolocationPosition;
+  positionchange: ManualGeolocationPosition;
+  accuracychange: ManualGeolocationPosition;
+  markershow: ManualGeolocationPosition;
+  markerhide: ManualGeolocationPosition;
+  add: ManualGeolocateLifecycleEvent;
+  remove: ManualGeolocateLifecycleEvent;
+  trackuserlocationstart: object;
+  trackuserlocationend: object;
+  userlocationfocus: object;
+  userlocationlostfocus: object;
+}
+
+/**
+ * Event types supported by ManualGeolocateControl
+ */
+export type ManualGeolocateEventType = keyof ManualGeolocateEventMap;
+
+/**
+ * An event fired by ManualGeolocateControl: the payload from `ManualGeolocateEventMap`
+ * with the event `type`, the control as `target`, and the `source` of the event
+ */
+export type ManualGeolocateEvent<
+  T extends ManualGeolocateEventType = ManualGeolocateEventType,
+> = ManualGeolocateEventMap[T] & {
+  type: T;
+  target: ManualGeolocateControl;
+  source: ManualGeolocateEventSource;
+};
+
+/**
+ * Listener of a ManualGeolocateControl event
+ */
+export type ManualGeolocateEventListener<T extends ManualGeolocateEventType> = (
+  event: ManualGeolocateEvent<T>,
+) => void;
+
+/**
+ * Options for RoutePlayback
+ */
+export interface RoutePlaybackOptions {
+  /**
+   * Constant speed in meters per second used to walk a GeoJSON LineString.
+   * Ignored when every fix has a timestamp, as those are replayed with their recorded timing.
+   * @default 1.4
+   */
+  speed?: number;
+
+  /**
+   * Playback rate multiplier, e.g. `10` plays the route ten times faster than real time
+   * @default 1
+   */
+  timeScale?: number;
+
+  /**
+   * Whether to restart from the beginning when the end of the route is reached
+   * @default false
+   */
+  loop?: boolean;
+}
+
+/**
+ * Options for PositionJitter
+ */
+export interface PositionJitterOptions {
+  /**
+   * How the noise evolves between updates:
+   * - `"gaussian"` - independent offsets at every update, like white noise
+   * - `"random-walk"` - each offset drifts from the previous one, like the slowly
+   *   wandering error of a real receiver. It stays within `sigma` on average.
+   * @default "gaussian"
+   */
+  model?: "gaussian" | "random-walk";
+
+  /**
+   * Standard deviation of the offset along each axis, in meters
+   * @default 5
+   */
+  sigma?: number;
+
+  /**
+   * For `"random-walk"`, how much of the previous offset is kept at each update,
+   * from 0 (independent offsets) to 1 (never returns to the true position)
+   * @default 0.9
+   */
+  correlation?: number;
+
+  /**
+   * Probability of an outlier jump at each update
+   * @default 0.02
+   */
+  outlierProbability?: number;
+
+  /**
+   * Distance of an outlier jump in meters, in a random direction
+   * @default 50
+   */
+  outlierDistance?: number;
+
+  /**
+   * Milliseconds between position updates
+   * @default 1000
+   */
+  interval?: number;
+
+  /**
+   * Seed of the random number generator. Runs with the same seed produce the same
+   * positions. A random seed is used when omitted.
+   */
+  seed?: number;
+}
+
+/**
+ * Options for the GPX and GeoJSON track parsers
+ */
+export interface TrackParserOptions {
+  /**
+   * Meters of error per unit of dilution of precision, used to turn `hdop` into an accuracy radius
+   * @default 5
+   */
+  dopScale?: number;
+}
+
+/**
+ * Fields shared by all supported NMEA 0183 sentences
+ */
+interface NMEASentenceBase {
+  /**
+   * Two-character talker ID, e.g. `GP` (GPS) or `GN` (multi-constellation)
+   */
+  talker: string;
+}
+
+/**
+ * `GGA` - Global positioning system fix data
+ */
+export interface NMEAGGASentence extends NMEASentenceBase {
+  type: "GGA";
+  /** UTC time of the fix in milliseconds since midnight */
+  time: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  /** Fix quality: 0 = invalid, 1 = GPS, 2 = DGPS, 4 = RTK fixed, 5 = RTK float, ... */
+  quality: number;
+  satellites: number | null;
+  /** Horizontal dilution of precision */
+  hdop: number | null;
+  /** Altitude above mean sea level in meters */
+  altitude: number | null;
+  /** Height of the geoid above the WGS84 ellipsoid in meters */
+  geoidSeparation: number | null;
+}
+
+/**
+ * `RMC` - Recommended minimum specific GNSS data
+ */
+export interface NMEARMCSentence extends NMEASentenceBase {
+  type: "RMC";
+  /** UTC time of the fix in milliseconds since midnight */
+  time: number | null;
+  /** `true` when the status field is `A` (valid) */
+  valid: boolean;
+  latitude: number | null;
+  longitude: number | null;
+  /** Speed over ground in meters per second */
+  speed: number | null;
+  /** Course over ground in degrees clockwise from true north */
+  course: number | null;
+  /** UTC date of the fix as epoch milliseconds of that midnight */
+  date: number | null;
+}
+
+/**
+ * `VTG` - Course over ground and ground speed
+ */
+export interface NMEAVTGSentence extends NMEASentenceBase {
+  type: "VTG";
+  /** Course over ground in degrees clockwise from true north */
+  course: number | null;
+  /** Speed over ground in meters per second */
+  speed: number | null;
+}
+
+/**
+ * `GST` - GNSS pseudorange error statistics
+ */
+export interface NMEAGSTSentence extends NMEASentenceBase {
+  type: "GST";
+  /** UTC time of the fix in milliseconds since midnight */
+  time: number | null;
+  /** Standard deviation of the semi-major axis of the error ellipse in meters */
+  semiMajorError: number | null;
+  /** Standard deviation of the semi-minor axis of the error ellipse in meters */
+  semiMinorError: number | null;
+  /** Direction of the semi-major axis in degrees clockwise from true north */
+  orientation: number | null;
+  /** Standard deviation of the latitude error in meters */
+  latitudeError: number | null;
+  /** Standard deviation of the longitude error in meters */
+  longitudeError: number | null;
+  /** Standard deviation of the altitude error in meters */
+  altitudeError: number | null;
+}
+
+/**
+ * A parsed NMEA 0183 sentence
+ */
+export type NMEASentence =
+  | NMEAGGASentence
+  | NMEARMCSentence
+  | NMEAVTGSentence
+  | NMEAGSTSentence;
+
+/**
+ * Options for NMEAFeeder
+ */
+export interface NMEAFeederOptions {
+  /**
+   * Meters of error per unit of HDOP, used for accuracy when no `GST` sentence is available
+   * @default 5
+   */
+  dopScale?: number;
+
+  /**
+   * Called for each malformed sentence. Malformed sentences are skipped silently by default.
+   */
+  onError?: (error: NMEAParseError) => void;
+}
+
+/**
+ * Options for parseCoordinates
+ */
+export interface CoordinateParserOptions {
+  /**
+   * Order of two plain numbers without hemisphere letters. Input that is only valid in
+   * the other order, such as `139.69, 35.68` with `"latlng"`, is swapped automatically.
+   * Ignored for `geo:` URIs and map links, whose order is fixed.
+   * @default "latlng"
+   */
+  order?: "latlng" | "lnglat";
+}
+
+/**
+ * Result of parseCoordinates
+ */
+export interface ParsedCoordinates {
+  /**
+   * The parsed position
+   */
+  lngLat: LngLat;
+
+  /**
+   * Uncertainty in meters from the `u=` parameter of a `geo:` URI
+   */
+  accuracy?: number;
+
+  /**
+   * Altitude in meters from the third coordinate of a `geo:` URI
+   */
+  altitude?: number;
+
+  /**
+   * The recognized input format
+   */
+  format: "decimal" | "dms" | "geo" | "url";
+
+  /**
+   * Whether the numbers were read in the opposite of the expected `order` because they
+   * were out of range otherwise
+   */
+  swapped: boolean;
+}
+
+/**
+ * Why a coordinate string could not be parsed:
+ * - `INVALID_FORMAT` - the input is not in a recognized format
+ * - `OUT_OF_RANGE` - a latitude, longitude, minute or second is out of range
+ */
+export type CoordinateParseErrorCode = "INVALID_FORMAT" | "OUT_OF_RANGE";
+
+/**
+ * A source of positions for the `ManualGeolocation` shim.
+ * Implemented by `ManualGeolocateControl` and `ManualPositionStore`.
+ */
+export interface PositionSource {
+  /**
+   * Get the current position as a W3C GeolocationPosition
+   */
+  getGeolocationPosition(): GeolocationPosition;
+
+  /**
+   * Register a listener called whenever the position or its accuracy changes
+   * @returns A function that unregisters the listener
+   */
+  onPositionChange(listener: () => void): () => void;
+
+  /**
+   * Get the error that acquiring a position currently fails with, if the source
+   * simulates errors
+   */
+  getPositionError?(): SimulatedGeolocationError | null;
+}
+
+/**
+ * Options for ManualPositionStore
+ */
+export type ManualPositionStoreOptions = Pick<
+  ManualGeolocateControlOptions,
+  | "position"
+  | "accuracy"
+  | "heading"
+  | "altitude"
+  | "altitudeAccuracy"
+  | "speed"
+  | "timestamp"
+>;
+
+/**
+ * Options for ManualGeolocation
+ */
+export interface ManualGeolocationOptions {
+  /**
+   * Simulated time in milliseconds to acquire a position. Requests whose
+   * `PositionOptions.timeout` is not longer than this fail with a `TIMEOUT` error.
+   * @default 0
+   */
+  delay?: number;
+}
+
+/**
+ * A position tracked by `ManualPositions`
+ */
+export interface ManualPositionEntity {
+  /**
+   * Unique id of the entity
+   */
+  id: string;
+
+  /**
+   * The coordinates of the entity
+   */
+  position: LngLatLike;
+
+  /**
+   * Accuracy circle radius in meters. No circle is drawn when omitted.
+   */
+  accuracy?: number;
+
+  /**
+   * CSS color of the dot, accuracy circle and heading cone
+   * @default "#1da1f2"
+   */
+  color?: string;
+
+  /**
+   * Text shown below the dot. Requires a style with `glyphs`.
+   */
+  label?: string;
+
+  /**
+   * Degrees clockwise from true north, or `null` to hide the heading cone
+   * @default null
+   */
+  heading?: number | null;
+}
+
+/**
+ * Options for ManualPositions
+ */
+export interface ManualPositionsOptions {
+  /**
+   * Id of the `geojson` source, and prefix of its layer ids
+   * @default "manual-positions"
+   */
+  id?: string;
+
+  /**
+   * Id of an existing layer to insert the layers before. Layers are added on top by default.
+   */
+  beforeId?: string;
+}
+
+/**
+ * Payload of the `add`, `update` and `remove` events of ManualPositions
+ */
+export interface ManualPositionEvent {
+  /**
+   * Id of the entity
+   */
+  id: string;
+
+  /**
+   * The entity after the change, or as it was before removal
+   */
+  entity: ManualPositionEntity;
+}
+
+/**
+ * Payload of the `click` event of ManualPositions
+ */
+export interface ManualPositionClickEvent extends ManualPositionEvent {
+  /**
+   * Where the map was clicked
+   */
+  lngLat: LngLat;
+}
+
+/**
+ * Map of ManualPositions event types to their payloads
+ */
+export interface ManualPositionsEventMap {
+  add: ManualPositionEvent;
+  update: ManualPositionEvent;
+  remove: ManualPositionEvent;
+  click: ManualPositionClickEvent;
+}
+
+/**
+ * Event types supported by ManualPositions
+ */
+export type ManualPositionsEventType = keyof ManualPositionsEventMap;
+
+/**
+ * An event fired by ManualPositions: the payload from `ManualPositionsEventMap` with
+ * the event `type` and the collection as `target`
+ */
+export type ManualPositionsEvent<
+  T extends ManualPositionsEventType = ManualPositionsEventType,
+> = ManualPositionsEventMap[T] & {
+  type: T;
+  target: ManualPositions;
+};
+
+/**
+ * Listener of a ManualPositions event
+ */
+export type ManualPositionsEventListener<T extends ManualPositionsEventType> = (
+  event: ManualPositionsEvent<T>,
+) => void;
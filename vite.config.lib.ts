@@ -1,9 +1,24 @@
 import { defineConfig } from "vite";
 import dts from "vite-plugin-dts";
+import { CSS } from "./src/styles";
 
 // Library build configuration
 export default defineConfig({
-  plugins: [dts({ rollupTypes: true })],
+  plugins: [
+    dts({ rollupTypes: true }),
+    {
+      // The styles the control injects, as a stylesheet for pages whose Content
+      // Security Policy blocks <style> elements
+      name: "emit-stylesheet",
+      generateBundle() {
+        this.emitFile({
+          type: "asset",
+          fileName: "maplibre-gl-manual-geolocate.css",
+          source: CSS.trimStart(),
+        });
+      },
+    },
+  ],
   build: {
     lib: {
       entry: "src/index.ts",